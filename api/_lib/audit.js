@@ -0,0 +1,66 @@
+// Audit trail of metrics changes: one entry per changed field of a row.
+// Entry: { timestamp, userEmail, userName, action, recordId, field, oldValue, newValue }
+// where action is 'add', 'update', 'revert', 'archive', 'restore' or 'recompute'.
+// Entries are appended through the storage adapter.
+import { METRIC_FIELDS } from './storage/records.js';
+
+// Entries for every stored metric field whose value differs between `before` and `after`
+export function metricChangeEntries(user, action, recordId, before, after) {
+  const timestamp = new Date().toISOString();
+  return METRIC_FIELDS
+    .filter(field => field in after && String(before[field] ?? '') !== String(after[field] ?? ''))
+    .map(field => ({
+      timestamp,
+      userEmail: user.email,
+      userName: user.name || '',
+      action,
+      recordId,
+      field,
+      oldValue: String(before[field] ?? ''),
+      newValue: String(after[field] ?? ''),
+    }));
+}
+
+// The change itself has already been saved, so a failed audit write is logged
+// with its entries (to be recovered by hand) rather than failing the request
+export async function recordAudit(storage, entries) {
+  if (entries.length === 0) return;
+  try {
+    await storage.appendAudit(entries);
+  } catch (error) {
+    console.error('Failed to write audit entries:', error.message, JSON.stringify(entries));
+  }
+}
+
+// Field values that undo every change recorded after `timestamp`, i.e. the row as it
+// was right after the save at `timestamp`. Edits made directly in the sheet were never
+// audited and are left alone.
+export function valuesAsOf(entries, timestamp) {
+  const values = {};
+  entries
+    .filter(entry => entry.timestamp > timestamp)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    // Newest first, so the oldest later change's old value is the one that sticks
+    .forEach(entry => {
+      values[entry.field] = entry.oldValue;
+    });
+  return values;
+}
+
+// Newest first, narrowed by any of: recordId, user (email or name substring),
+// field, action, from / to (ISO dates, inclusive)
+export function filterAudit(entries, { recordId, user, field, action, from, to } = {}) {
+  const userQuery = user ? String(user).toLowerCase() : '';
+  const toEnd = to && to.length === 10 ? `${to}T23:59:59.999Z` : to;
+
+  return entries
+    .filter(entry =>
+      (!recordId || entry.recordId === recordId) &&
+      (!userQuery || entry.userEmail.toLowerCase().includes(userQuery) || entry.userName.toLowerCase().includes(userQuery)) &&
+      (!field || entry.field === field) &&
+      (!action || entry.action === action) &&
+      (!from || entry.timestamp >= from) &&
+      (!toEnd || entry.timestamp <= toEnd)
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
@@ -0,0 +1,50 @@
+// In-memory read cache with a TTL and content-hash ETags.
+// Each Express process / warm Vercel instance keeps its own copy.
+import crypto from 'crypto';
+
+// Strong ETag for a JSON-serializable value
+export function computeETag(value) {
+  const hash = crypto.createHash('sha1').update(JSON.stringify(value)).digest('base64url');
+  return `"${hash}"`;
+}
+
+// True when an If-None-Match header lists `etag` (or is "*")
+export function matchesETag(ifNoneMatch, etag) {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const candidate = tag.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
+
+// Cache the result of `load()` for `ttlMs`. Concurrent callers share one load,
+// and a failed load is not cached.
+export function createCache(load, ttlMs) {
+  let entry = null;
+  let pending = null;
+
+  return {
+    // { value, etag, loadedAt }
+    async get() {
+      if (entry && Date.now() - entry.loadedAtMs < ttlMs) {
+        return entry;
+      }
+      if (!pending) {
+        pending = load()
+          .then(value => {
+            const now = Date.now();
+            entry = { value, etag: computeETag(value), loadedAt: new Date(now).toISOString(), loadedAtMs: now };
+            return entry;
+          })
+          .finally(() => {
+            pending = null;
+          });
+      }
+      return pending;
+    },
+
+    invalidate() {
+      entry = null;
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// Change feed behind /api/events. While anyone is subscribed, the collections are
+// re-read every EVENTS_POLL_SECONDS and each is diffed against the last snapshot by
+// record id; writes made through the API call notifyChange() so their subscribers
+// hear about them right away instead of on the next poll. Content comes from the
+// shared content cache, so it is read from the data source at most once per cache TTL
+// however many streams are open; metrics are read on every check.
+//
+// The feed lives in memory, one per process. On Vercel every warm instance holding an
+// /api/events stream runs its own poller, and a write only notifies the streams on the
+// instance that served it; streams on other instances see it on their next poll.
+import { getStorage } from './storage/index.js';
+import { contentCache } from './contentCache.js';
+
+const EVENTS_POLL_SECONDS = Number(process.env.EVENTS_POLL_SECONDS ?? 5);
+
+const COLLECTIONS = {
+  articles: async () => (await contentCache.get()).value.articles,
+  schedule: async () => (await contentCache.get()).value.schedule,
+  stories: async () => (await contentCache.get()).value.stories,
+  metrics: storage => storage.listMetrics(),
+};
+
+const subscribers = new Set();
+let snapshot = null;
+let timer = null;
+let checking = null;
+let recheck = false;
+
+async function loadSnapshot() {
+  const storage = await getStorage();
+  const entries = await Promise.all(
+    Object.entries(COLLECTIONS).map(async ([name, list]) => [name, await list(storage)])
+  );
+  return Object.fromEntries(entries);
+}
+
+// Records that are new or changed, and ids that disappeared
+function diffCollection(previous, next) {
+  const previousById = new Map(previous.map(item => [item.id, JSON.stringify(item)]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  return {
+    upserted: next.filter(item => previousById.get(item.id) !== JSON.stringify(item)),
+    removed: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+  };
+}
+
+function broadcast(change) {
+  for (const listener of subscribers) {
+    listener(change);
+  }
+}
+
+async function check() {
+  const next = await loadSnapshot();
+  if (snapshot) {
+    for (const collection of Object.keys(COLLECTIONS)) {
+      const { upserted, removed } = diffCollection(snapshot[collection], next[collection]);
+      if (upserted.length > 0 || removed.length > 0) {
+        broadcast({ collection, upserted, removed });
+      }
+    }
+  }
+  snapshot = next;
+}
+
+// Run one check at a time; a request that arrives mid-check queues exactly one more
+function scheduleCheck() {
+  if (checking) {
+    recheck = true;
+    return checking;
+  }
+  checking = check()
+    .catch(error => console.error('Error checking for data changes:', error.message))
+    .finally(() => {
+      checking = null;
+      if (recheck && subscribers.size > 0) {
+        recheck = false;
+        scheduleCheck();
+      }
+    });
+  return checking;
+}
+
+// Listen for { collection, upserted, removed } changes. Returns an unsubscribe function.
+export function subscribe(listener) {
+  subscribers.add(listener);
+  if (!timer) {
+    scheduleCheck();
+    timer = setInterval(scheduleCheck, EVENTS_POLL_SECONDS * 1000);
+  }
+
+  return () => {
+    subscribers.delete(listener);
+    if (subscribers.size === 0) {
+      clearInterval(timer);
+      timer = null;
+      snapshot = null;
+    }
+  };
+}
+
+// Called after a write so subscribers see it without waiting for the next poll
+export function notifyChange() {
+  if (subscribers.size > 0) {
+    scheduleCheck();
+  }
+}
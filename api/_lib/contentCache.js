@@ -0,0 +1,21 @@
+// Short-lived snapshot of the content collections (articles, schedule, stories), shared
+// by the content routes and the change feed so neither reads the data source more than
+// once per TTL. Each Express process / warm Vercel instance keeps its own copy.
+import { getStorage } from './storage/index.js';
+import { createCache } from './cache.js';
+
+// Seconds a content snapshot is served before the data source is read again
+const CONTENT_CACHE_TTL_SECONDS = Number(process.env.CONTENT_CACHE_TTL_SECONDS ?? 10);
+
+export const contentCache = createCache(async () => {
+  const storage = await getStorage();
+
+  // Fetch all collections in parallel for speed
+  const [articles, schedule, stories] = await Promise.all([
+    storage.listArticles(),
+    storage.listSchedule(),
+    storage.listStories()
+  ]);
+
+  return { articles, schedule, stories };
+}, CONTENT_CACHE_TTL_SECONDS * 1000);
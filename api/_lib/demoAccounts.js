@@ -0,0 +1,42 @@
+// Built-in demo accounts for local development only.
+// They are ignored unless ENABLE_DEMO_ACCOUNTS=true and NODE_ENV is not production.
+const DEMO_ACCOUNTS = [
+  {
+    password: 'demo123',
+    user: {
+      id: 'demo-user',
+      email: 'demo@defyinsurance.com',
+      name: 'Demo User',
+      role: 'admin',
+      active: true
+    }
+  },
+  {
+    password: 'admin123',
+    user: {
+      id: 'admin-user',
+      email: 'admin@defyinsurance.com',
+      name: 'Administrator',
+      role: 'admin',
+      active: true
+    }
+  }
+];
+
+export function demoAccountsEnabled() {
+  return process.env.ENABLE_DEMO_ACCOUNTS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+// Return the demo user matching the credentials, or null
+export function findDemoAccount(email, password) {
+  if (!demoAccountsEnabled()) return null;
+
+  const account = DEMO_ACCOUNTS.find(a =>
+    a.user.email === email.toLowerCase() && a.password === password
+  );
+  return account ? account.user : null;
+}
+
+export function isDemoAccount(userId) {
+  return DEMO_ACCOUNTS.some(a => a.user.id === userId);
+}
@@ -0,0 +1,58 @@
+// AI chat route - proxies to OpenAI's chickytutor model, falling back to
+// gpt-4o-mini if the model is missing and to Pollinations without an API key.
+import { HttpError } from '../httpError.js';
+import { rolesWith } from '../../../shared/permissions.js';
+
+async function requestCompletion(url, headers, model, { messages, temperature, max_tokens }) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ model, messages, temperature, max_tokens }),
+  });
+}
+
+export const chat = {
+  method: 'POST',
+  auth: rolesWith('useAI'),
+  context: 'in AI chat',
+  async handler({ body }) {
+    const { messages, temperature = 0.7, max_tokens = 2000 } = body;
+
+    if (!messages || !Array.isArray(messages)) {
+      throw new HttpError(400, 'Messages array is required');
+    }
+
+    const params = { messages, temperature, max_tokens };
+    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+    if (!OPENAI_API_KEY) {
+      // Fallback to Pollinations if no OpenAI key
+      const pollinationsResponse = await requestCompletion('https://text.pollinations.ai/openai', {}, 'openai', params);
+      if (pollinationsResponse.ok) {
+        return pollinationsResponse.json();
+      }
+      throw new HttpError(500, 'AI service unavailable');
+    }
+
+    const openAIUrl = 'https://api.openai.com/v1/chat/completions';
+    const authHeader = { 'Authorization': `Bearer ${OPENAI_API_KEY}` };
+
+    const response = await requestCompletion(openAIUrl, authHeader, 'chickytutor', params);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('OpenAI API error:', errorData);
+
+      // Fallback to gpt-4o-mini if chickytutor fails
+      if (errorData.error?.code === 'model_not_found') {
+        const fallbackResponse = await requestCompletion(openAIUrl, authHeader, 'gpt-4o-mini', params);
+        if (fallbackResponse.ok) {
+          return fallbackResponse.json();
+        }
+      }
+      throw new HttpError(response.status, errorData.error?.message || 'AI request failed');
+    }
+
+    return response.json();
+  },
+};
@@ -0,0 +1,31 @@
+// Metric alerts route: sudden drops in each agent's weekly metrics, detected over the
+// active metrics rows on every request so alerts always match the sheet.
+import { HttpError } from '../httpError.js';
+import { getStorage } from '../storage/index.js';
+import { detectAnomalies } from '../../../shared/anomalies.js';
+
+// Most weeks one request may look back over
+const MAX_RECENT_WEEKS = 52;
+
+// Query: weeks - how many of the latest weeks to report alerts for (default 4)
+export const listAlerts = {
+  method: 'GET',
+  auth: 'session',
+  context: 'detecting metric alerts',
+  async handler({ query }) {
+    const recentWeeks = query.weeks === undefined ? 4 : Number(query.weeks);
+    if (!Number.isInteger(recentWeeks) || recentWeeks < 1 || recentWeeks > MAX_RECENT_WEEKS) {
+      throw new HttpError(400, `weeks must be a whole number from 1 to ${MAX_RECENT_WEEKS}`);
+    }
+
+    const storage = await getStorage();
+    const active = (await storage.listMetrics()).filter(metric => !metric.archivedAt);
+    const alerts = detectAnomalies(active, { recentWeeks });
+
+    return {
+      alerts,
+      critical: alerts.filter(alert => alert.severity === 'critical').length,
+      checkedAt: new Date().toISOString(),
+    };
+  },
+};
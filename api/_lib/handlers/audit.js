@@ -0,0 +1,15 @@
+// Audit log route (admins): every recorded metrics change, filterable.
+import { getStorage } from '../storage/index.js';
+import { filterAudit } from '../audit.js';
+import { rolesWith } from '../../../shared/permissions.js';
+
+// Query: recordId, user, field, action, from, to - see filterAudit
+export const listAuditLog = {
+  method: 'GET',
+  auth: rolesWith('viewAuditLog'),
+  context: 'fetching audit log',
+  async handler({ query }) {
+    const storage = await getStorage();
+    return filterAudit(await storage.listAudit(), query);
+  },
+};
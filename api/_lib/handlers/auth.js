@@ -0,0 +1,90 @@
+// Sign-in and password routes.
+import { HttpError } from '../httpError.js';
+import { signSessionToken } from '../session.js';
+import { hashPassword, verifyPassword, isPasswordHash, validateNewPassword } from '../passwords.js';
+import { findDemoAccount, isDemoAccount } from '../demoAccounts.js';
+import { getStorage } from '../storage/index.js';
+import { withNewSessionVersion } from '../users.js';
+
+// Active user with this email, or undefined when the data source has none
+async function findActiveUser(email) {
+  const storage = await getStorage();
+  const users = await storage.listUsers();
+  return users.find(u => u.email.toLowerCase() === email.toLowerCase() && u.active);
+}
+
+export const login = {
+  method: 'POST',
+  context: 'signing in',
+  async handler({ body }) {
+    const { email, password } = body;
+
+    if (!email || !password) {
+      throw new HttpError(400, 'Email and password are required');
+    }
+
+    // Look the user up in the data source
+    try {
+      const user = await findActiveUser(email);
+      if (user) {
+        if (!isPasswordHash(user.password)) {
+          console.warn(`User ${user.email} has a plaintext password. Run "npm run migrate:passwords".`);
+        }
+        if (await verifyPassword(password, user.password)) {
+          // Remove password and session version from response
+          const { password: _pass, sessionVersion: _version, ...safeUser } = user;
+          return { user: safeUser, ...signSessionToken(user) };
+        }
+      }
+    } catch (usersError) {
+      console.log('Users not available:', usersError.message);
+    }
+
+    // Demo accounts (only when ENABLE_DEMO_ACCOUNTS=true in development)
+    const demoUser = findDemoAccount(email, password);
+    if (demoUser) {
+      return { user: demoUser, ...signSessionToken(demoUser) };
+    }
+
+    throw new HttpError(401, 'Invalid email or password');
+  },
+};
+
+// Change the signed-in user's password. Other sessions of the user are signed out;
+// this one continues with the new token in the response.
+export const changePassword = {
+  method: 'POST',
+  auth: 'session',
+  context: 'changing password',
+  async handler({ body, user: sessionUser }) {
+    const { currentPassword, newPassword } = body;
+
+    if (!currentPassword) {
+      throw new HttpError(400, 'Current password is required');
+    }
+
+    const passwordError = validateNewPassword(newPassword);
+    if (passwordError) {
+      throw new HttpError(400, passwordError);
+    }
+
+    if (isDemoAccount(sessionUser.id)) {
+      throw new HttpError(403, 'Demo account passwords cannot be changed');
+    }
+
+    const user = await findActiveUser(sessionUser.email);
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      throw new HttpError(403, 'Current password is incorrect');
+    }
+
+    const storage = await getStorage();
+    const updated = { ...withNewSessionVersion(user), password: await hashPassword(newPassword) };
+    await storage.updateUser(user.email, updated);
+
+    return { success: true, message: 'Password changed successfully', ...signSessionToken(updated) };
+  },
+};
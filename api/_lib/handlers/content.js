@@ -0,0 +1,50 @@
+// Content routes: news articles, posting schedule and success stories.
+// Reads go through a short-lived cache (contentCache.js) so dashboard polling from
+// many tabs costs one data-source read per TTL instead of one per request.
+import { matchesETag } from '../cache.js';
+import { contentCache } from '../contentCache.js';
+import { HttpResponse } from '../httpResponse.js';
+
+export const listArticles = {
+  method: 'GET',
+  context: 'fetching articles',
+  async handler() {
+    const { value } = await contentCache.get();
+    return value.articles;
+  },
+};
+
+export const listSchedule = {
+  method: 'GET',
+  context: 'fetching schedule',
+  async handler() {
+    const { value } = await contentCache.get();
+    return value.schedule;
+  },
+};
+
+export const listStories = {
+  method: 'GET',
+  context: 'fetching stories',
+  async handler() {
+    const { value } = await contentCache.get();
+    return value.stories;
+  },
+};
+
+// Everything the content dashboard needs in one request.
+// The ETag is a hash of the content, so pollers get 304 until something changes.
+export const getAllContent = {
+  method: 'GET',
+  context: 'fetching all data',
+  async handler({ headers }) {
+    const { value, etag, loadedAt } = await contentCache.get();
+    const cacheHeaders = { 'ETag': etag, 'Cache-Control': 'no-cache' };
+
+    if (matchesETag(headers['if-none-match'], etag)) {
+      return new HttpResponse(304, undefined, cacheHeaders);
+    }
+
+    return new HttpResponse(200, { ...value, lastUpdated: loadedAt }, cacheHeaders);
+  },
+};
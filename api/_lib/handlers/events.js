@@ -0,0 +1,22 @@
+// Server-Sent Events stream of data changes (see changeFeed.js).
+import { subscribe } from '../changeFeed.js';
+
+// Comment line sent periodically so proxies keep the connection open
+const HEARTBEAT_MS = 25000;
+
+export const events = {
+  method: 'GET',
+  stream: true,
+  context: 'streaming events',
+  handler({ send, onClose }) {
+    send('ready', { connectedAt: new Date().toISOString() });
+
+    const unsubscribe = subscribe(change => send('change', change));
+    const heartbeat = setInterval(() => send(), HEARTBEAT_MS);
+
+    onClose(() => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  },
+};
@@ -0,0 +1,47 @@
+// Route table shared by the Express server and the Vercel functions.
+// Each route is { method, auth?, context, handler({ body, query, headers, user }) }:
+//   auth     - omitted for public routes, 'session' for any signed-in user, or a list of roles
+//   context  - used in the server log when the handler fails unexpectedly
+//   handler  - returns the JSON response body (or an HttpResponse for other statuses
+//              and headers), or throws an HttpError
+//   stream   - true for Server-Sent Events routes; the handler gets send(event, data) and onClose(callback)
+// Vercel exposes each route through its file under api/; Express mounts them all from ROUTES.
+import { listArticles, listSchedule, listStories, getAllContent } from './content.js';
+import {
+  listMetrics, updateMetrics, batchUpdateMetrics, addMetrics, metricHistory, revertMetric, archiveMetrics, restoreMetrics,
+  recomputeMetrics, previewImport,
+} from './metrics.js';
+import { listAuditLog } from './audit.js';
+import { listAlerts } from './alerts.js';
+import { login, changePassword } from './auth.js';
+import { listUsers, inviteUser, updateUser, resetPassword } from './users.js';
+import { chat } from './ai.js';
+import { events } from './events.js';
+
+export const ROUTES = {
+  '/api/all': getAllContent,
+  '/api/sheets': getAllContent,
+  '/api/articles': listArticles,
+  '/api/schedule': listSchedule,
+  '/api/stories': listStories,
+  '/api/ai/chat': chat,
+  '/api/events': events,
+  '/api/metrics': listMetrics,
+  '/api/metrics/update': updateMetrics,
+  '/api/metrics/batch': batchUpdateMetrics,
+  '/api/metrics/add': addMetrics,
+  '/api/metrics/import-preview': previewImport,
+  '/api/metrics/history': metricHistory,
+  '/api/metrics/revert': revertMetric,
+  '/api/metrics/delete': archiveMetrics,
+  '/api/metrics/restore': restoreMetrics,
+  '/api/metrics/recompute': recomputeMetrics,
+  '/api/alerts': listAlerts,
+  '/api/audit': listAuditLog,
+  '/api/auth/login': login,
+  '/api/auth/change-password': changePassword,
+  '/api/users': listUsers,
+  '/api/users/invite': inviteUser,
+  '/api/users/update': updateUser,
+  '/api/users/reset-password': resetPassword,
+};
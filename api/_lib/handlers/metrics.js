@@ -0,0 +1,309 @@
+// Week metrics routes.
+import { HttpError } from '../httpError.js';
+import { getStorage } from '../storage/index.js';
+import { notifyChange } from '../changeFeed.js';
+import { metricChangeEntries, recordAudit, filterAudit, valuesAsOf } from '../audit.js';
+import { can, forbiddenFields, forbiddenAddFields, rolesWith } from '../../../shared/permissions.js';
+import { deriveMetricFields } from '../../../shared/derivedMetrics.js';
+import { parseMetricNumber, parseWeekEnd } from '../../../shared/metricsSchema.js';
+import { METRICS_COLUMNS } from '../../../shared/metrics.js';
+
+// Field values arrive as { field: value } objects; anything else is a malformed request
+const isFieldMap = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const listMetrics = {
+  method: 'GET',
+  context: 'fetching metrics',
+  async handler() {
+    const storage = await getStorage();
+    return storage.listMetrics();
+  },
+};
+
+export const updateMetrics = {
+  method: 'POST',
+  auth: 'session',
+  context: 'updating metrics',
+  async handler({ body, user }) {
+    // Rows are addressed by their persistent id, never by position, and
+    // `version` is the row version the edit started from
+    const { id, version, changes } = body;
+
+    if (!id || !version || !changes) {
+      throw new HttpError(400, 'id, version and changes are required');
+    }
+    if (!isFieldMap(changes)) {
+      throw new HttpError(400, 'changes must be an object of field values');
+    }
+
+    // Each role may only edit the columns granted by the permission matrix
+    const invalidFields = forbiddenFields(user.role, Object.keys(changes));
+    if (invalidFields.length > 0) {
+      throw new HttpError(403, `You don't have permission to edit: ${invalidFields.join(', ')}`);
+    }
+
+    const storage = await getStorage();
+    const { previous, metric } = await storage.updateMetric(id, changes, version);
+    notifyChange();
+    await recordAudit(storage, metricChangeEntries(user, 'update', id, previous, metric));
+
+    return { success: true, message: 'Metrics updated successfully', metric };
+  },
+};
+
+// Most rows one batch request may change
+const MAX_BATCH_SIZE = 500;
+
+// Apply many row updates in one write. Body: { updates: [{ id, version, changes }] }.
+// Rows that fail (gone or changed since loaded) are reported without blocking the rest.
+export const batchUpdateMetrics = {
+  method: 'POST',
+  auth: rolesWith('bulkEdit'),
+  context: 'batch updating metrics',
+  async handler({ body, user }) {
+    const { updates } = body;
+
+    if (!Array.isArray(updates) || updates.length === 0) {
+      throw new HttpError(400, 'updates must be a non-empty list');
+    }
+    if (updates.length > MAX_BATCH_SIZE) {
+      throw new HttpError(400, `A batch can update at most ${MAX_BATCH_SIZE} rows`);
+    }
+    if (updates.some(update => !update?.id || !update.version || !update.changes)) {
+      throw new HttpError(400, 'Every update needs an id, version and changes');
+    }
+    if (updates.some(update => !isFieldMap(update.changes))) {
+      throw new HttpError(400, "Every update's changes must be an object of field values");
+    }
+    if (new Set(updates.map(update => update.id)).size !== updates.length) {
+      throw new HttpError(400, 'Each row may appear only once in a batch');
+    }
+
+    const invalidFields = forbiddenFields(user.role, [...new Set(updates.flatMap(update => Object.keys(update.changes)))]);
+    if (invalidFields.length > 0) {
+      throw new HttpError(403, `You don't have permission to edit: ${invalidFields.join(', ')}`);
+    }
+
+    return applyBatch(user, 'update', updates);
+  },
+};
+
+// Write a validated batch, audit the rows that saved and report each row's outcome
+async function applyBatch(user, action, updates) {
+  const storage = await getStorage();
+  const results = await storage.batchUpdateMetrics(updates);
+  const saved = results.filter(result => !result.error);
+
+  if (saved.length > 0) {
+    notifyChange();
+    await recordAudit(storage, saved.flatMap(({ id, previous, metric }) => metricChangeEntries(user, action, id, previous, metric)));
+  }
+
+  return {
+    success: saved.length === results.length,
+    updated: saved.length,
+    failed: results.length - saved.length,
+    results: results.map(({ id, metric, error }) => (error
+      ? { id, ok: false, status: error.status || 500, error: error.message, ...error.details }
+      : { id, ok: true, metric })),
+  };
+}
+
+// Archived rows keep their data and history, stamped with `archivedAt`. Body: { rows: [{ id, version }] }.
+function archiveRoute(action, context, archivedAt) {
+  return {
+    method: 'POST',
+    auth: rolesWith('archiveRows'),
+    context,
+    async handler({ body, user }) {
+      const { rows } = body;
+
+      if (!Array.isArray(rows) || rows.length === 0) {
+        throw new HttpError(400, 'rows must be a non-empty list');
+      }
+      if (rows.length > MAX_BATCH_SIZE) {
+        throw new HttpError(400, `At most ${MAX_BATCH_SIZE} rows can be changed at once`);
+      }
+      if (rows.some(row => !row?.id || !row.version)) {
+        throw new HttpError(400, 'Every row needs an id and version');
+      }
+      if (new Set(rows.map(row => row.id)).size !== rows.length) {
+        throw new HttpError(400, 'Each row may appear only once');
+      }
+
+      const changes = { archivedAt: archivedAt() };
+      return applyBatch(user, action, rows.map(({ id, version }) => ({ id, version, changes })));
+    },
+  };
+}
+
+// Soft delete: rows drop out of the default views but can be restored
+export const archiveMetrics = archiveRoute('archive', 'archiving metrics', () => new Date().toISOString());
+
+export const restoreMetrics = archiveRoute('restore', 'restoring metrics', () => '');
+
+// Rewrite the derived columns of every row whose stored values disagree with its raw
+// counts - rows saved before the server computed them, or edited in the sheet directly
+export const recomputeMetrics = {
+  method: 'POST',
+  auth: rolesWith('recomputeFields'),
+  context: 'recomputing metrics',
+  async handler({ user }) {
+    const storage = await getStorage();
+    const updates = (await storage.listMetrics())
+      .filter(metric => metric.derivedMismatches.length > 0)
+      .map(metric => ({ id: metric.id, version: metric.version, changes: deriveMetricFields(metric, metric.derivedMismatches) }));
+
+    if (updates.length === 0) {
+      return { success: true, updated: 0, failed: 0, results: [] };
+    }
+    return applyBatch(user, 'recompute', updates);
+  },
+};
+
+export const addMetrics = {
+  method: 'POST',
+  auth: 'session',
+  context: 'adding metrics',
+  async handler({ body, user }) {
+    const { data } = body;
+
+    if (!data) {
+      throw new HttpError(400, 'data is required');
+    }
+    if (!isFieldMap(data)) {
+      throw new HttpError(400, 'data must be an object of field values');
+    }
+
+    if (!can(user.role, 'addRows')) {
+      throw new HttpError(403, "You don't have permission to add rows");
+    }
+
+    const invalidFields = forbiddenAddFields(user.role, Object.keys(data));
+    if (invalidFields.length > 0) {
+      throw new HttpError(403, `You don't have permission to add data for: ${invalidFields.join(', ')}`);
+    }
+
+    const storage = await getStorage();
+    const { id, rowIndex, fields } = await storage.addMetric(data);
+    notifyChange();
+    await recordAudit(storage, metricChangeEntries(user, 'add', id, {}, fields));
+
+    return { success: true, id, message: `Row added successfully at row ${rowIndex}` };
+  },
+};
+
+// A row already holds an incoming week when agent, campaign and week end all match
+const IMPORT_KEY_FIELDS = ['agent', 'campaign', 'weekEnd'];
+
+// Cells are compared as numbers or dates when both sides read as one, so "1,200" equals "1200"
+function sameValue(field, a, b) {
+  if (field === 'weekEnd') {
+    const [dateA, dateB] = [parseWeekEnd(a), parseWeekEnd(b)];
+    if (dateA && dateB) return dateA.getTime() === dateB.getTime();
+  }
+  const [numA, numB] = [parseMetricNumber(a), parseMetricNumber(b)];
+  if (!Number.isNaN(numA) && !Number.isNaN(numB)) return numA === numB;
+  return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+}
+
+// Fields of `incoming` whose value differs from `metric`; blank incoming cells are not compared
+function importDifferences(metric, incoming) {
+  return Object.entries(incoming)
+    .filter(([field]) => METRICS_COLUMNS.includes(field) && !IMPORT_KEY_FIELDS.includes(field))
+    .filter(([field, value]) => String(value ?? '').trim() !== '' && !sameValue(field, metric[field], value))
+    .map(([field, value]) => ({ field, current: metric[field], incoming: String(value) }));
+}
+
+// Dry run of an import: classify each incoming row against the active rows as
+// 'new', 'identical' or 'conflict' (same week, different values) without writing.
+// Body: { rows: [data] } with each data as sent to /api/metrics/add.
+export const previewImport = {
+  method: 'POST',
+  auth: 'session',
+  context: 'previewing import',
+  async handler({ body, user }) {
+    const { rows } = body;
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new HttpError(400, 'rows must be a non-empty list');
+    }
+    if (rows.length > MAX_BATCH_SIZE) {
+      throw new HttpError(400, `At most ${MAX_BATCH_SIZE} rows can be imported at once`);
+    }
+    if (!rows.every(isFieldMap)) {
+      throw new HttpError(400, 'Every row must be an object of field values');
+    }
+    if (rows.some(row => IMPORT_KEY_FIELDS.some(field => !String(row[field] ?? '').trim()))) {
+      throw new HttpError(400, 'Every row needs an agent, campaign and weekEnd');
+    }
+
+    if (!can(user.role, 'addRows')) {
+      throw new HttpError(403, "You don't have permission to add rows");
+    }
+
+    const storage = await getStorage();
+    const active = (await storage.listMetrics()).filter(metric => !metric.archivedAt);
+
+    return {
+      rows: rows.map((incoming, index) => {
+        const matches = active
+          .filter(metric => IMPORT_KEY_FIELDS.every(field => sameValue(field, metric[field], incoming[field])))
+          .map(metric => ({ metric, differences: importDifferences(metric, incoming) }));
+        // With several matching rows, report the one the import would leave unchanged if there is one
+        const match = matches.find(candidate => candidate.differences.length === 0) ?? matches[0];
+
+        if (!match) return { index, status: 'new', match: null, differences: [] };
+        return {
+          index,
+          status: match.differences.length === 0 ? 'identical' : 'conflict',
+          match: match.metric,
+          differences: match.differences,
+        };
+      }),
+    };
+  },
+};
+
+// Audit entries of one row, newest first
+export const metricHistory = {
+  method: 'GET',
+  auth: 'session',
+  context: 'fetching metric history',
+  async handler({ query }) {
+    if (!query.id) {
+      throw new HttpError(400, 'id is required');
+    }
+
+    const storage = await getStorage();
+    return filterAudit(await storage.listAudit(), { recordId: query.id });
+  },
+};
+
+// Restore a row to how it was right after the save at `timestamp`, from its audit history.
+// `version` is the row version the history was viewed at, as for updates.
+export const revertMetric = {
+  method: 'POST',
+  auth: rolesWith('revertChanges'),
+  context: 'reverting metric',
+  async handler({ body, user }) {
+    const { id, version, timestamp } = body;
+
+    if (!id || !version || !timestamp) {
+      throw new HttpError(400, 'id, version and timestamp are required');
+    }
+
+    const storage = await getStorage();
+    const history = filterAudit(await storage.listAudit(), { recordId: id });
+    const changes = valuesAsOf(history, timestamp);
+    if (Object.keys(changes).length === 0) {
+      throw new HttpError(400, 'No recorded changes after that version - the row already matches it');
+    }
+
+    const { previous, metric } = await storage.updateMetric(id, changes, version);
+    notifyChange();
+    await recordAudit(storage, metricChangeEntries(user, 'revert', id, previous, metric));
+
+    return { success: true, message: 'Row reverted successfully', metric };
+  },
+};
@@ -0,0 +1,42 @@
+// User administration routes, for roles with manageUsers.
+import { getStorage } from '../storage/index.js';
+import { listUsers as listAllUsers, inviteUser as invite, updateUser as update, resetUserPassword } from '../users.js';
+import { rolesWith } from '../../../shared/permissions.js';
+
+export const listUsers = {
+  method: 'GET',
+  auth: rolesWith('manageUsers'),
+  context: 'listing users',
+  async handler() {
+    return listAllUsers(await getStorage());
+  },
+};
+
+export const inviteUser = {
+  method: 'POST',
+  auth: rolesWith('manageUsers'),
+  context: 'inviting user',
+  async handler({ body }) {
+    return invite(await getStorage(), body);
+  },
+};
+
+// Change a user's name, role or active flag
+export const updateUser = {
+  method: 'POST',
+  auth: rolesWith('manageUsers'),
+  context: 'updating user',
+  async handler({ body, user }) {
+    return { user: await update(await getStorage(), user, body) };
+  },
+};
+
+// Reset a user's password to a new temporary password
+export const resetPassword = {
+  method: 'POST',
+  auth: rolesWith('manageUsers'),
+  context: 'resetting password',
+  async handler({ body }) {
+    return resetUserPassword(await getStorage(), body);
+  },
+};
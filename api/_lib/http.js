@@ -0,0 +1,99 @@
+// Adapters that serve the shared route table (see handlers/index.js)
+// from Express and from Vercel functions.
+import { authenticate } from './session.js';
+import { HttpError, sendError } from './httpError.js';
+import { isSessionCurrent } from './users.js';
+import { getStorage } from './storage/index.js';
+import { HttpResponse } from './httpResponse.js';
+
+// Keep a Server-Sent Events response open and hand the route a send() function.
+// send(event, data) writes one event; send() with no arguments writes a heartbeat comment.
+function runStreamRoute(route, req, res, user) {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+
+  // Reconnect delay for EventSource after the stream drops
+  res.write('retry: 3000\n\n');
+
+  const send = (event, data) => {
+    if (event === undefined) {
+      res.write(': heartbeat\n\n');
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const onClose = callback => req.on('close', callback);
+
+  route.handler({ query: req.query || {}, headers: req.headers || {}, user, send, onClose });
+}
+
+// Authenticate if the route requires it, run the handler and send its result
+export async function runRoute(route, req, res) {
+  let user = null;
+  if (route.auth) {
+    user = authenticate(req, res, route.auth === 'session' ? undefined : route.auth);
+    if (!user) return;
+  }
+
+  try {
+    // Tokens carry the role they were issued with; check the account on every request so
+    // a deactivation, role change or password reset applies at once rather than when the
+    // token expires
+    if (user && !(await isSessionCurrent(await getStorage(), user))) {
+      throw new HttpError(401, 'Your account has changed. Please sign in again.');
+    }
+  } catch (error) {
+    return sendError(res, error, route.context);
+  }
+
+  if (route.stream) {
+    return runStreamRoute(route, req, res, user);
+  }
+
+  try {
+    const result = await route.handler({ body: req.body || {}, query: req.query || {}, headers: req.headers || {}, user });
+    if (!(result instanceof HttpResponse)) {
+      return res.status(200).json(result);
+    }
+
+    for (const [name, value] of Object.entries(result.headers)) {
+      res.setHeader(name, value);
+    }
+    if (result.body === undefined) {
+      return res.status(result.status).end();
+    }
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    sendError(res, error, route.context);
+  }
+}
+
+// Vercel function entrypoint for a single route
+export function createVercelHandler(route) {
+  return async function handler(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', `${route.method}, OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-None-Match');
+    res.setHeader('Access-Control-Expose-Headers', 'ETag');
+
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    if (req.method !== route.method) {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    return runRoute(route, req, res);
+  };
+}
+
+// Register every route on an Express app
+export function mountRoutes(app, routes) {
+  for (const [path, route] of Object.entries(routes)) {
+    app[route.method.toLowerCase()](path, (req, res) => runRoute(route, req, res));
+  }
+}
@@ -0,0 +1,18 @@
+// Error carrying an HTTP status, thrown by shared route logic and
+// turned into a JSON response by sendError()
+export class HttpError extends Error {
+  constructor(status, message, details) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export function sendError(res, error, context) {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({ error: error.message, ...error.details });
+  }
+  console.error(`Error ${context}:`, error);
+  return res.status(500).json({ error: error.message });
+}
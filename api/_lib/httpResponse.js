@@ -0,0 +1,9 @@
+// Returned by a route handler that needs a status or headers other than
+// the default 200 JSON response (see runRoute in http.js)
+export class HttpResponse {
+  constructor(status, body, headers = {}) {
+    this.status = status;
+    this.body = body;
+    this.headers = headers;
+  }
+}
@@ -0,0 +1,57 @@
+// Salted password hashing for the Users sheet.
+// Hashes are stored as: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+import crypto from 'crypto';
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function scrypt(password, salt, params) {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, params, (err, derivedKey) => {
+      if (err) reject(err);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+// Check whether a stored value is a hash produced by hashPassword()
+export function isPasswordHash(stored) {
+  return typeof stored === 'string' && stored.startsWith('scrypt$') && stored.split('$').length === 6;
+}
+
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, SCRYPT_PARAMS);
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+// Compare a plaintext password against a stored hash in constant time.
+// Plaintext values left in the sheet never match - run `npm run migrate:passwords` first.
+export async function verifyPassword(password, stored) {
+  if (!password || !isPasswordHash(stored)) return false;
+
+  const [, N, r, p, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Validate a new password, returning an error message or null
+export function validateNewPassword(password) {
+  if (!password || typeof password !== 'string') {
+    return 'New password is required';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `New password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
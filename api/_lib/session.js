@@ -0,0 +1,109 @@
+// Signed session tokens shared by the Express server and the Vercel functions.
+// Routes are authenticated through authenticate(), called by the route adapters in http.js.
+// Tokens are JWT-style: base64url(header).base64url(payload).base64url(HMAC-SHA256)
+import crypto from 'crypto';
+
+// Session lifetime - 12 hours unless overridden
+const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS) || 60 * 60 * 12;
+
+const TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+let devSecret = null;
+
+// Resolve the signing secret. Production deployments must set SESSION_SECRET;
+// local development falls back to a per-process secret so sessions reset on restart.
+function getSecret() {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  if (!devSecret) {
+    devSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('SESSION_SECRET not set - using a temporary secret. Sessions will reset when the server restarts.');
+  }
+  return devSecret;
+}
+
+function base64url(input) {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data) {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+// Issue a signed token for a user returned by the login route
+export function signSessionToken(user) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    sub: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    sv: user.sessionVersion || 0,
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS,
+  };
+
+  const unsigned = `${base64url(JSON.stringify(TOKEN_HEADER))}.${base64url(JSON.stringify(payload))}`;
+  return {
+    token: `${unsigned}.${sign(unsigned)}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+// Verify a token's signature and expiry. Returns the session user or null.
+export function verifySessionToken(token) {
+  if (!token || typeof token !== 'string') return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (!claims.exp || claims.exp * 1000 <= Date.now()) return null;
+
+    return {
+      id: claims.sub,
+      email: claims.email,
+      name: claims.name,
+      role: claims.role,
+      sessionVersion: claims.sv || 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Read the bearer token from the Authorization header
+function readBearerToken(req) {
+  const header = req.headers?.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' ? token : null;
+}
+
+// Resolve the session for a request, replying 401 when it is missing or invalid
+// and 403 when the user's role is not in `roles` (if given).
+// Returns the session user, or null once the response has been sent.
+export function authenticate(req, res, roles) {
+  const user = verifySessionToken(readBearerToken(req));
+  if (!user) {
+    res.status(401).json({ error: 'Your session has expired. Please sign in again.' });
+    return null;
+  }
+  if (roles && !roles.includes(user.role)) {
+    res.status(403).json({ error: 'You do not have permission to perform this action' });
+    return null;
+  }
+  return user;
+}
+
@@ -0,0 +1,393 @@
+// Google Sheets storage adapter - the production data source.
+import { google } from 'googleapis';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readFileSync, existsSync } from 'fs';
+import { METRICS_COLUMNS } from '../../../shared/metrics.js';
+import { SHEET_COLUMNS, HIDDEN_COLUMNS, mapColumns, columnLetter } from './sheetColumns.js';
+import { HttpError } from '../httpError.js';
+import { createWriteQueue } from './writeQueue.js';
+import {
+  toArticle, toScheduleEntry, toStory, toMetric, toUser, toAuditEntry,
+  newRecordId, contentRecordId, staleRecordError, assertMetricVersion, withDerivedFields, assertValidMetric, assertValidNewMetric,
+} from './records.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SPREADSHEET_ID = '1TFtKMMAhevtYMTZb1dmx1Xmd9UjJnMyx4abZx9YIUwE';
+
+// Service account credentials, in order of preference:
+// GOOGLE_CREDENTIALS (full JSON), the split GOOGLE_* variables, then server/credentials.json
+export function loadGoogleCredentials() {
+  if (process.env.GOOGLE_CREDENTIALS) {
+    return JSON.parse(process.env.GOOGLE_CREDENTIALS);
+  }
+
+  if (process.env.GOOGLE_PRIVATE_KEY && process.env.GOOGLE_CLIENT_EMAIL) {
+    return {
+      type: 'service_account',
+      project_id: process.env.GOOGLE_PROJECT_ID,
+      private_key_id: process.env.GOOGLE_PRIVATE_KEY_ID,
+      private_key: process.env.GOOGLE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+      client_email: process.env.GOOGLE_CLIENT_EMAIL,
+      client_id: process.env.GOOGLE_CLIENT_ID,
+      auth_uri: 'https://accounts.google.com/o/oauth2/auth',
+      token_uri: 'https://oauth2.googleapis.com/token',
+      auth_provider_x509_cert_url: 'https://www.googleapis.com/oauth2/v1/certs',
+      client_x509_cert_url: `https://www.googleapis.com/robot/v1/metadata/x509/${encodeURIComponent(process.env.GOOGLE_CLIENT_EMAIL)}`
+    };
+  }
+
+  const credentialsPath = path.join(__dirname, '..', '..', '..', 'server', 'credentials.json');
+  if (existsSync(credentialsPath)) {
+    return JSON.parse(readFileSync(credentialsPath, 'utf-8'));
+  }
+
+  throw new Error('No Google credentials found. Set GOOGLE_CREDENTIALS or add server/credentials.json.');
+}
+
+export async function createGoogleSheetsStorage(credentials = loadGoogleCredentials()) {
+  const auth = new google.auth.GoogleAuth({
+    credentials,
+    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+  });
+  const sheets = google.sheets({ version: 'v4', auth: await auth.getClient() });
+
+  async function readRange(range) {
+    const response = await sheets.spreadsheets.values.get({
+      spreadsheetId: SPREADSHEET_ID,
+      range,
+    });
+    return response.data.values || [];
+  }
+
+  async function writeRange(range, values, valueInputOption = 'USER_ENTERED') {
+    await sheets.spreadsheets.values.update({
+      spreadsheetId: SPREADSHEET_ID,
+      range,
+      valueInputOption,
+      requestBody: { values }
+    });
+  }
+
+  const tabRange = (table) => `'${SHEET_COLUMNS[table].sheet}'`;
+
+  const hasIdField = (table) => 'id' in SHEET_COLUMNS[table].aliases;
+
+  const hasData = (row) => (row || []).some(cell => String(cell ?? '').trim() !== '');
+
+  // Append a hidden column for `field` after the last header of a tab
+  async function createHiddenColumn(table, field, index) {
+    const { data } = await sheets.spreadsheets.get({
+      spreadsheetId: SPREADSHEET_ID,
+      fields: 'sheets.properties(sheetId,title,gridProperties.columnCount)',
+    });
+    const properties = data.sheets.find(sheet => sheet.properties.title === SHEET_COLUMNS[table].sheet)?.properties;
+    if (!properties) {
+      throw new Error(`Sheet "${SHEET_COLUMNS[table].sheet}" not found`);
+    }
+
+    const requests = [];
+    if (properties.gridProperties.columnCount <= index) {
+      requests.push({ appendDimension: { sheetId: properties.sheetId, dimension: 'COLUMNS', length: 1 } });
+    }
+    requests.push({
+      updateDimensionProperties: {
+        range: { sheetId: properties.sheetId, dimension: 'COLUMNS', startIndex: index, endIndex: index + 1 },
+        properties: { hiddenByUser: true },
+        fields: 'hiddenByUser',
+      }
+    });
+    await sheets.spreadsheets.batchUpdate({ spreadsheetId: SPREADSHEET_ID, requestBody: { requests } });
+    await writeRange(`${tabRange(table)}!${columnLetter(index)}1`, [[HIDDEN_COLUMNS[field]]], 'RAW');
+  }
+
+  // One attempt per tab, field and process. Without write access a tab keeps
+  // content-derived ids, and its rows cannot be archived.
+  const hiddenColumnAttempts = new Map();
+  function ensureHiddenColumn(table, field, index) {
+    const key = `${table}:${field}`;
+    if (!hiddenColumnAttempts.has(key)) {
+      hiddenColumnAttempts.set(key, createHiddenColumn(table, field, index).then(() => true, error => {
+        console.warn(`Could not add a "${HIDDEN_COLUMNS[field]}" column to "${SHEET_COLUMNS[table].sheet}":`, error.message);
+        return false;
+      }));
+    }
+    return hiddenColumnAttempts.get(key);
+  }
+
+  // Give every data row without an id one, written back in a single request. The ids are
+  // derived from the row content, so requests backfilling the same rows at the same time
+  // write the same ids, and they match the ids dataRows handed out before.
+  async function fillMissingIds(table, rows, columns) {
+    const seen = new Map();
+    const idIndex = columns.id;
+    const updates = [];
+    rows.forEach((row, i) => {
+      if (i === 0 || row[idIndex] || !hasData(row)) return;
+      row[idIndex] = contentRecordId(table, rowToFields(columns, row), seen);
+      updates.push({ range: `${tabRange(table)}!${columnLetter(idIndex)}${i + 1}`, values: [[row[idIndex]]] });
+    });
+
+    if (updates.length > 0) {
+      await sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: SPREADSHEET_ID,
+        requestBody: { valueInputOption: 'RAW', data: updates }
+      });
+    }
+  }
+
+  // Read a whole tab and map its header row to field columns.
+  // Missing hidden columns are created, and blank ids filled in.
+  async function readTable(table) {
+    const rows = await readRange(tabRange(table));
+    let header = rows[0] || [];
+    let columns = mapColumns(table, header);
+
+    for (const field of Object.keys(HIDDEN_COLUMNS)) {
+      if (field in SHEET_COLUMNS[table].aliases && !(field in columns) && await ensureHiddenColumn(table, field, header.length)) {
+        header = [...header, HIDDEN_COLUMNS[field]];
+        rows[0] = header;
+        columns = { ...columns, [field]: header.length - 1 };
+      }
+    }
+    if ('id' in columns) {
+      await fillMissingIds(table, rows, columns);
+    }
+
+    return { header, rows, columns };
+  }
+
+  // Row cells -> { field: value } for every mapped field
+  function rowToFields(columns, row) {
+    return Object.fromEntries(Object.entries(columns).map(([field, index]) => [field, row[index]]));
+  }
+
+  // Non-blank rows below the header with their sheet row number.
+  // Ids come from the id column, or from the row content when the tab has none.
+  function dataRows(table, rows, columns) {
+    const seen = new Map();
+    const result = [];
+    rows.forEach((row, i) => {
+      if (i === 0 || !hasData(row)) return;
+      const fields = rowToFields(columns, row);
+      if (hasIdField(table) && !fields.id) {
+        fields.id = contentRecordId(table, fields, seen);
+      }
+      result.push({ fields, rowNumber: i + 1 });
+    });
+    return result;
+  }
+
+  async function readRecords(table, toRecord) {
+    const { rows, columns } = await readTable(table);
+    return dataRows(table, rows, columns).map(({ fields, rowNumber }) => toRecord(fields, rowNumber));
+  }
+
+  // Write `fields` into their columns of `row`, leaving unmapped cells untouched
+  function fieldsToRow(columns, width, fields, row = []) {
+    const cells = Array.from({ length: width }, (_, i) => row[i] ?? '');
+    for (const [field, index] of Object.entries(columns)) {
+      if (field in fields) {
+        cells[index] = fields[field];
+      }
+    }
+    return cells;
+  }
+
+  // A1 range covering one full row of a tab
+  function rowRange(table, width, rowNumber) {
+    return `${tabRange(table)}!A${rowNumber}:${columnLetter(width - 1)}${rowNumber}`;
+  }
+
+  // Append rows after the last row of data and return the sheet row number of the first.
+  // The API places concurrent appends on separate rows, even across server instances.
+  async function appendRows(table, rows, valueInputOption = 'USER_ENTERED') {
+    const response = await sheets.spreadsheets.values.append({
+      spreadsheetId: SPREADSHEET_ID,
+      range: tabRange(table),
+      valueInputOption,
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: { values: rows }
+    });
+    // updatedRange looks like 'Users'!A7:E7
+    return Number(response.data.updates?.updatedRange?.match(/!A(\d+)/)?.[1]);
+  }
+
+  // Add a tab with its header row if the spreadsheet doesn't have it yet
+  async function createTabIfMissing(table) {
+    const { sheet, aliases } = SHEET_COLUMNS[table];
+    const { data } = await sheets.spreadsheets.get({
+      spreadsheetId: SPREADSHEET_ID,
+      fields: 'sheets.properties.title',
+    });
+    if (data.sheets.some(tab => tab.properties.title === sheet)) return;
+
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId: SPREADSHEET_ID,
+      requestBody: { requests: [{ addSheet: { properties: { title: sheet } } }] }
+    });
+    const header = Object.values(aliases).map(names => names[0]);
+    await writeRange(rowRange(table, header.length, 1), [header], 'RAW');
+  }
+
+  // Checked once per tab and process; a failed check is retried on the next call
+  const tabChecks = new Map();
+  function ensureTab(table) {
+    if (!tabChecks.has(table)) {
+      tabChecks.set(table, createTabIfMissing(table).catch(error => {
+        tabChecks.delete(table);
+        throw error;
+      }));
+    }
+    return tabChecks.get(table);
+  }
+
+  // Read-modify-write operations from this process never interleave. Other processes
+  // (other Vercel instances) are not covered; applyMetricUpdates re-checks before writing.
+  const enqueue = createWriteQueue();
+
+  // Check every { id, version, changes } against one read of the tab and write the
+  // ones that pass in a single batchUpdate. Each result is { id, previous, metric }
+  // or { id, error } - a failed row does not stop the others.
+  async function applyMetricUpdates(updates) {
+    const { header, rows, columns } = await readTable('metrics');
+    const targets = new Map(dataRows('metrics', rows, columns).map(target => [target.fields.id, target]));
+    let writes = [];
+
+    const results = updates.map(({ id, version, changes }, index) => {
+      const target = targets.get(id);
+      try {
+        if (!target) {
+          throw staleRecordError(id);
+        }
+        const previous = toMetric(target.fields, target.rowNumber);
+        assertMetricVersion(previous, version);
+
+        // Edits never overwrite the stored id
+        const { id: _id, ...edited } = changes;
+        const fields = withDerivedFields(target.fields, edited);
+        if ('archivedAt' in fields && !('archivedAt' in columns)) {
+          throw new HttpError(500, `Sheet "${SHEET_COLUMNS.metrics.sheet}" has no "${HIDDEN_COLUMNS.archivedAt}" column, so rows cannot be archived`);
+        }
+        assertValidMetric({ ...target.fields, ...fields }, Object.keys(fields));
+        const row = rows[target.rowNumber - 1];
+        writes.push({
+          index,
+          id,
+          previous,
+          range: rowRange('metrics', header.length, target.rowNumber),
+          values: [fieldsToRow(columns, header.length, fields, row)],
+        });
+        return { id, previous, metric: toMetric({ ...target.fields, ...fields }, target.rowNumber) };
+      } catch (error) {
+        return { id, error };
+      }
+    });
+
+    // Another instance may have written these rows since the read above. Re-read them
+    // just before writing and drop the ones that changed, so only a write landing between
+    // this check and the batchUpdate can still be overwritten.
+    if (writes.length > 0) {
+      const { data: fresh } = await sheets.spreadsheets.values.batchGet({
+        spreadsheetId: SPREADSHEET_ID,
+        ranges: writes.map(write => write.range),
+      });
+      writes = writes.filter((write, i) => {
+        const current = toMetric(rowToFields(columns, fresh.valueRanges?.[i]?.values?.[0] || []), write.previous.rowIndex);
+        try {
+          if ('id' in columns && current.id !== write.id) {
+            throw staleRecordError(write.id);
+          }
+          assertMetricVersion(current, write.previous.version);
+          return true;
+        } catch (error) {
+          results[write.index] = { id: write.id, error };
+          return false;
+        }
+      });
+    }
+
+    if (writes.length > 0) {
+      await sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: SPREADSHEET_ID,
+        requestBody: { valueInputOption: 'USER_ENTERED', data: writes.map(({ range, values }) => ({ range, values })) }
+      });
+    }
+    return results;
+  }
+
+  function userFields(user) {
+    return { ...user, active: user.active ? 'TRUE' : 'FALSE', sessionVersion: String(user.sessionVersion || 0) };
+  }
+
+  return {
+    name: 'sheets',
+
+    listArticles: () => readRecords('articles', toArticle),
+
+    listSchedule: () => readRecords('schedule', toScheduleEntry),
+
+    listStories: () => readRecords('stories', toStory),
+
+    listMetrics: () => readRecords('metrics', toMetric),
+
+    updateMetric: (id, changes, expectedVersion) => enqueue(async () => {
+      const [result] = await applyMetricUpdates([{ id, version: expectedVersion, changes }]);
+      if (result.error) throw result.error;
+      return result;
+    }),
+
+    batchUpdateMetrics: (updates) => enqueue(() => applyMetricUpdates(updates)),
+
+    addMetric: (data) => enqueue(async () => {
+      const written = withDerivedFields({}, data);
+      assertValidNewMetric(written);
+      const { header, columns } = await readTable('metrics');
+      const id = newRecordId('metrics');
+      const stored = Object.fromEntries(METRICS_COLUMNS.map(col => [col, written[col] || '']));
+      const rowIndex = await appendRows('metrics', [fieldsToRow(columns, header.length, { ...stored, id })]);
+      return { id, rowIndex, fields: stored };
+    }),
+
+    // The "Audit Log" tab is only ever appended to, never rewritten
+    async appendAudit(entries) {
+      await ensureTab('audit');
+      const header = (await readRange(`${tabRange('audit')}!1:1`))[0] || [];
+      const columns = mapColumns('audit', header);
+      await appendRows('audit', entries.map(entry => fieldsToRow(columns, header.length, entry)), 'RAW');
+    },
+
+    async listAudit() {
+      await ensureTab('audit');
+      return readRecords('audit', toAuditEntry);
+    },
+
+    async listUsers() {
+      // User ids follow the sheet row (row 2 is user-0)
+      const users = await readRecords('users', (fields, rowNumber) => toUser({
+        ...fields,
+        active: fields.active?.toLowerCase() === 'true' || fields.active === '1',
+      }, rowNumber - 2));
+      return users.filter(user => user.email);
+    },
+
+    addUser: (user) => enqueue(async () => {
+      const { header, rows, columns } = await readTable('users');
+      const rowNumber = await appendRows('users', [fieldsToRow(columns, header.length, userFields(user))], 'RAW') || rows.length + 1;
+      // Ids follow the sheet row (row 2 is user-0)
+      return toUser(user, rowNumber - 2);
+    }),
+
+    updateUser: (email, user) => enqueue(async () => {
+      const { header, rows, columns } = await readTable('users');
+      const rowIndex = rows.findIndex((row, i) => i > 0 && (row[columns.email] || '').toLowerCase() === email.toLowerCase());
+      if (rowIndex === -1) {
+        throw new Error(`User ${email} not found in the Users sheet`);
+      }
+      const updatedRow = fieldsToRow(columns, header.length, userFields(user), rows[rowIndex]);
+      await writeRange(rowRange('users', header.length, rowIndex + 1), [updatedRow], 'RAW');
+    }),
+  };
+}
@@ -0,0 +1,65 @@
+// Storage adapter selection. Set DATA_SOURCE to pick a backend:
+//   sheets (default) - the Google Sheet, see googleSheets.js
+//   json             - a local JSON file (DATA_FILE, default server/data/local.json)
+//
+// Every adapter implements the same interface:
+//   name                           - 'sheets' | 'json'
+//   listArticles()                 - NewsArticle[]
+//   listSchedule()                 - ScheduleEntry[]
+//   listStories()                  - SuccessStory[]
+//   listMetrics()                  - WeekMetric[] (each with its rowIndex, version and the
+//                                    derivedMismatches it has), archived rows included with
+//                                    their archivedAt set
+//   updateMetric(id, changes, version)
+//                                  - { previous, metric } WeekMetrics; rejects with a 409 when
+//                                    no record has that id or it is no longer at `version`,
+//                                    and with a 400 carrying fieldErrors when the changes
+//                                    break shared/metricsSchema.js
+//   batchUpdateMetrics([{ id, version, changes }])
+//                                  - one result per update: { id, previous, metric } or
+//                                    { id, error }; the passing rows are written in one go
+//   addMetric(fields)              - { id, rowIndex, fields }; appends after the last row and
+//                                    never lands on a row another add is writing; invalid
+//                                    fields are rejected like updates. `fields` holds the
+//                                    values written, derived columns included
+//
+// Metric writes recompute the derived columns they affect (shared/derivedMetrics.js).
+// The version check is exact within one process, where writes run one at a time. Across
+// processes (several Vercel instances on the Google Sheet) it is not atomic: the sheets
+// adapter re-reads the rows just before writing, which narrows the window to the write
+// request itself, but two writes landing within it can still overwrite each other.
+// Articles, schedule entries, stories and metrics carry a persistent id that
+// survives rows being inserted, sorted or deleted around them.
+//   appendAudit(entries)           - append audit entries (see audit.js); never rewrites old ones
+//   listAudit()                    - every audit entry, oldest first
+//   listUsers()                    - users including their password hash and session version
+//   addUser(user)                  - the stored user with its id
+//   updateUser(email, user)        - replace the user with that email
+import { HttpError } from '../httpError.js';
+import { createGoogleSheetsStorage } from './googleSheets.js';
+import { createJsonFileStorage } from './jsonFile.js';
+
+const ADAPTERS = {
+  sheets: () => createGoogleSheetsStorage(),
+  json: () => createJsonFileStorage(process.env.DATA_FILE || undefined),
+};
+
+let storagePromise = null;
+
+// Resolve the configured adapter once per process.
+// Rejects with a 503 HttpError when the data source cannot be reached.
+export function getStorage() {
+  if (!storagePromise) {
+    const source = process.env.DATA_SOURCE || 'sheets';
+    const createAdapter = ADAPTERS[source];
+    if (!createAdapter) {
+      return Promise.reject(new HttpError(503, `Unknown DATA_SOURCE "${source}". Use one of: ${Object.keys(ADAPTERS).join(', ')}`));
+    }
+    storagePromise = createAdapter().catch(error => {
+      // Let the next request retry instead of caching the failure
+      storagePromise = null;
+      throw new HttpError(503, `Data source not initialized: ${error.message}`);
+    });
+  }
+  return storagePromise;
+}
@@ -0,0 +1,173 @@
+// JSON-file storage adapter for offline development and demos.
+// The whole dataset lives in one file; it is created from server/data/seed.json on first use.
+// The audit log is a separate append-only JSON Lines file next to it (local.audit.jsonl).
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readFile, writeFile, appendFile, rename, mkdir, copyFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { METRICS_COLUMNS } from '../../../shared/metrics.js';
+import { createWriteQueue } from './writeQueue.js';
+import {
+  toArticle, toScheduleEntry, toStory, toMetric, toUser, toAuditEntry,
+  METRIC_FIELDS, RECORD_ID_PREFIX, newRecordId, staleRecordError, assertMetricVersion, withDerivedFields, assertValidMetric, assertValidNewMetric,
+} from './records.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '..', '..', '..', 'server', 'data');
+const SEED_FILE = path.join(DATA_DIR, 'seed.json');
+export const DEFAULT_DATA_FILE = path.join(DATA_DIR, 'local.json');
+
+const EMPTY_DATASET = { articles: [], schedule: [], stories: [], metrics: [], users: [] };
+
+export async function createJsonFileStorage(filePath = DEFAULT_DATA_FILE) {
+  const auditPath = `${filePath.replace(/\.json$/, '')}.audit.jsonl`;
+
+  if (!existsSync(filePath)) {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    if (existsSync(SEED_FILE)) {
+      await copyFile(SEED_FILE, filePath);
+    } else {
+      await writeFile(filePath, JSON.stringify(EMPTY_DATASET, null, 2));
+    }
+    console.log(`Created local data file at ${filePath}`);
+  }
+
+  // Read on every call so hand edits to the file show up without a restart.
+  // Records added by hand get an id here, saved back so it stays stable.
+  async function load() {
+    const data = { ...EMPTY_DATASET, ...JSON.parse(await readFile(filePath, 'utf-8')) };
+
+    let assigned = false;
+    for (const collection of Object.keys(RECORD_ID_PREFIX)) {
+      for (const record of data[collection]) {
+        if (!record.id) {
+          record.id = newRecordId(collection);
+          assigned = true;
+        }
+      }
+    }
+    if (assigned) {
+      await save(data);
+    }
+
+    return data;
+  }
+
+  // Write to a temp file first so a crash never leaves half-written JSON
+  async function save(data) {
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, filePath);
+  }
+
+  // Every operation loads and may save the whole file, so they run one at a time;
+  // otherwise two concurrent writes would each save a copy missing the other's change
+  const enqueue = createWriteQueue();
+
+  // Apply every { id, version, changes } that still matches its row, then save once.
+  // Each result is { id, previous, metric } or { id, error }.
+  async function applyMetricUpdates(updates) {
+    const data = await load();
+
+    const results = updates.map(({ id, version, changes }) => {
+      const index = data.metrics.findIndex(record => record.id === id);
+      try {
+        if (index === -1) {
+          throw staleRecordError(id);
+        }
+        const current = data.metrics[index];
+        const previous = toMetric(current, index + 2);
+        assertMetricVersion(previous, version);
+
+        const written = withDerivedFields(current, changes);
+        const updated = { id };
+        for (const col of METRIC_FIELDS) {
+          updated[col] = col in written ? written[col] : current[col] ?? '';
+        }
+        assertValidMetric(updated, Object.keys(written));
+        data.metrics[index] = updated;
+        return { id, previous, metric: toMetric(updated, index + 2) };
+      } catch (error) {
+        return { id, error };
+      }
+    });
+
+    if (results.some(result => !result.error)) {
+      await save(data);
+    }
+    return results;
+  }
+
+  function list(collection, toRecord) {
+    return enqueue(async () => {
+      const data = await load();
+      return data[collection].map(toRecord);
+    });
+  }
+
+  return {
+    name: 'json',
+
+    listArticles: () => list('articles', toArticle),
+
+    listSchedule: () => list('schedule', toScheduleEntry),
+
+    listStories: () => list('stories', toStory),
+
+    // rowIndex numbers records as if the file were a sheet with a header row
+    listMetrics: () => list('metrics', (record, index) => toMetric(record, index + 2)),
+
+    updateMetric: (id, changes, expectedVersion) => enqueue(async () => {
+      const [result] = await applyMetricUpdates([{ id, version: expectedVersion, changes }]);
+      if (result.error) throw result.error;
+      return result;
+    }),
+
+    batchUpdateMetrics: (updates) => enqueue(() => applyMetricUpdates(updates)),
+
+    addMetric: (fields) => enqueue(async () => {
+      const written = withDerivedFields({}, fields);
+      assertValidNewMetric(written);
+      const data = await load();
+      const id = newRecordId('metrics');
+      const stored = Object.fromEntries(METRICS_COLUMNS.map(col => [col, written[col] || '']));
+      data.metrics.push({ id, ...stored });
+      await save(data);
+      return { id, rowIndex: data.metrics.length + 1, fields: stored };
+    }),
+
+    async appendAudit(entries) {
+      await appendFile(auditPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+    },
+
+    async listAudit() {
+      if (!existsSync(auditPath)) return [];
+      const lines = (await readFile(auditPath, 'utf-8')).split('\n').filter(Boolean);
+      return lines.map(line => toAuditEntry(JSON.parse(line)));
+    },
+
+    async listUsers() {
+      const users = await list('users', toUser);
+      return users.filter(user => user.email);
+    },
+
+    addUser: (user) => enqueue(async () => {
+      const data = await load();
+      data.users.push({ email: user.email, password: user.password, name: user.name, role: user.role, active: user.active, sessionVersion: user.sessionVersion || 0 });
+      await save(data);
+      return toUser(user, data.users.length - 1);
+    }),
+
+    updateUser: (email, user) => enqueue(async () => {
+      const data = await load();
+      const index = data.users.findIndex(u => (u.email || '').toLowerCase() === email.toLowerCase());
+      if (index === -1) {
+        throw new Error(`User ${email} not found in ${filePath}`);
+      }
+      data.users[index] = { email: user.email, password: user.password, name: user.name, role: user.role, active: user.active, sessionVersion: user.sessionVersion || 0 };
+      await save(data);
+    }),
+  };
+}
@@ -0,0 +1,181 @@
+// Record shapes returned by every storage adapter.
+// Adapters pass raw field values (including the persisted id); these fill defaults and derived fields.
+import { createHash, randomUUID } from 'crypto';
+import { METRICS_COLUMNS } from '../../../shared/metrics.js';
+import { validateMetricFields, validateNewMetric } from '../../../shared/metricsSchema.js';
+import { deriveMetricFields, derivedMismatches } from '../../../shared/derivedMetrics.js';
+import { HttpError } from '../httpError.js';
+
+// Id prefix for each collection that carries a persisted record id
+export const RECORD_ID_PREFIX = {
+  articles: 'article',
+  schedule: 'schedule',
+  stories: 'story',
+  metrics: 'metric',
+};
+
+// Fresh id for a new or not-yet-identified record, e.g. "metric-1b9d6bcd"
+export function newRecordId(collection) {
+  return `${RECORD_ID_PREFIX[collection]}-${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
+
+// Fallback id derived from a record's content, for sources that cannot store ids.
+// Identical records get a -2, -3... suffix via `seen` so ids stay unique.
+export function contentRecordId(collection, fields, seen) {
+  const hash = createHash('sha1').update(JSON.stringify(fields)).digest('hex').slice(0, 12);
+  const base = `${RECORD_ID_PREFIX[collection]}-${hash}`;
+  const count = (seen.get(base) || 0) + 1;
+  seen.set(base, count);
+  return count === 1 ? base : `${base}-${count}`;
+}
+
+// Raised when a write addresses a record id that no longer exists
+export function staleRecordError(id) {
+  return new HttpError(409, 'This row was moved, changed or deleted by someone else. Refresh and try again.', { id });
+}
+
+// Stored metric fields: the editable columns plus the archive timestamp (blank while active)
+export const METRIC_FIELDS = [...METRICS_COLUMNS, 'archivedAt'];
+
+// Hash of a metric's stored values. Clients send back the version they started
+// editing from, so a row changed in the meantime is detected instead of overwritten.
+export function metricVersion(fields) {
+  const values = METRIC_FIELDS.map(col => fields[col] || '');
+  return createHash('sha1').update(JSON.stringify(values)).digest('hex').slice(0, 12);
+}
+
+// Reject the write when `current` is no longer the version the client edited.
+// The 409 carries the stored row so the client can merge field by field.
+export function assertMetricVersion(current, expectedVersion) {
+  if (current.version !== expectedVersion) {
+    throw new HttpError(409, 'This row was changed by someone else while you were editing it.', {
+      id: current.id,
+      expectedVersion,
+      current,
+    });
+  }
+}
+
+// `changes` to the row `current` with the derived columns they affect recomputed
+export function withDerivedFields(current, changes) {
+  return { ...changes, ...deriveMetricFields({ ...current, ...changes }, Object.keys(changes)) };
+}
+
+// Reject a write whose `fields` of the row `values` break the shared metrics schema.
+// The 400 lists the message for each bad field so the client can show them inline.
+export function assertValidMetric(values, fields = Object.keys(values)) {
+  throwFieldErrors(validateMetricFields(values, fields));
+}
+
+// As assertValidMetric for a whole new row, which also needs an agent and week end
+export function assertValidNewMetric(values) {
+  throwFieldErrors(validateNewMetric(values));
+}
+
+function throwFieldErrors(fieldErrors) {
+  const invalid = Object.entries(fieldErrors);
+  if (invalid.length > 0) {
+    throw new HttpError(400, `Invalid values: ${invalid.map(([field, message]) => `${field} - ${message}`).join('; ')}`, {
+      fieldErrors,
+    });
+  }
+}
+
+// Article status from its publish date
+export function determineStatus(publishDate) {
+  if (!publishDate) return 'draft';
+  try {
+    const pubDate = new Date(publishDate);
+    const now = new Date();
+    return pubDate <= now ? 'published' : 'scheduled';
+  } catch {
+    return 'draft';
+  }
+}
+
+export function toArticle(fields) {
+  return {
+    id: fields.id,
+    date: fields.date || '',
+    title: fields.title || '',
+    articleLink: fields.articleLink || '',
+    linkedinPost: fields.linkedinPost || '',
+    twitterPost: fields.twitterPost || '',
+    publishDate: fields.publishDate || '',
+    status: determineStatus(fields.publishDate)
+  };
+}
+
+export function toScheduleEntry(fields) {
+  return {
+    id: fields.id,
+    agentName: fields.agentName || '',
+    sunday: fields.sunday || '',
+    monday: fields.monday || '',
+    tuesday: fields.tuesday || '',
+    wednesday: fields.wednesday || '',
+    thursday: fields.thursday || '',
+    friday: fields.friday || '',
+    saturday: fields.saturday || ''
+  };
+}
+
+export function toStory(fields) {
+  return {
+    id: fields.id,
+    date: fields.date || '',
+    twitterCaption: fields.twitterCaption || '',
+    linkedinCaption: fields.linkedinCaption || '',
+    completedOn: fields.completedOn || null,
+    status: fields.completedOn ? 'completed' : 'pending'
+  };
+}
+
+// Cells as text; values stored before writes were type-checked (objects, arrays) read as blank
+function cellText(value) {
+  if (typeof value === 'string') return value;
+  return typeof value === 'number' && Number.isFinite(value) ? String(value) : '';
+}
+
+// rowIndex is the current sheet row number, for display only - writes are addressed by id
+export function toMetric(fields, rowIndex) {
+  const metric = {
+    id: fields.id,
+    rowIndex,
+    version: metricVersion(fields),
+  };
+  for (const col of METRIC_FIELDS) {
+    metric[col] = cellText(fields[col]);
+  }
+  // Derived columns that disagree with the raw counts, e.g. from before they were computed on write
+  metric.derivedMismatches = derivedMismatches(metric);
+  return metric;
+}
+
+// One changed field of one record; see api/_lib/audit.js
+export function toAuditEntry(fields) {
+  return {
+    timestamp: fields.timestamp || '',
+    userEmail: fields.userEmail || '',
+    userName: fields.userName || '',
+    action: fields.action || '',
+    recordId: fields.recordId || '',
+    field: fields.field || '',
+    oldValue: fields.oldValue ?? '',
+    newValue: fields.newValue ?? '',
+  };
+}
+
+// Includes the password hash - strip it before sending a user to the client
+export function toUser(fields, index) {
+  return {
+    id: `user-${index}`,
+    email: fields.email || '',
+    password: fields.password || '',
+    name: fields.name || '',
+    role: fields.role || 'viewer',
+    active: Boolean(fields.active),
+    // Raised on a password reset or change; tokens issued before it are refused
+    sessionVersion: Number(fields.sessionVersion) || 0
+  };
+}
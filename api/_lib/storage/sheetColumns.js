@@ -0,0 +1,180 @@
+// Header-driven column mapping for the Google Sheet tabs.
+// Each tab lists the header names accepted for every field; a field's own name
+// (e.g. "publishDate") always matches too. Headers are compared case-, space- and
+// punctuation-insensitively, so "Publish Date", "publish_date" and "PublishDate" are equal.
+//
+// Extra aliases can be supplied without a code change through SHEET_HEADER_ALIASES, e.g.
+//   SHEET_HEADER_ALIASES='{"metrics":{"weekEnd":["Week Ending"]}}'
+//
+// Fields listed in HIDDEN_COLUMNS (the persistent record id, the archive timestamp,
+// a user's session version)
+// live in hidden columns the Google Sheets adapter adds the first time it reads a tab
+// whose aliases include them.
+import { HttpError } from '../httpError.js';
+
+export const HIDDEN_COLUMNS = {
+  id: 'Row ID',
+  archivedAt: 'Archived At',
+  sessionVersion: 'Session Version',
+};
+
+export const SHEET_COLUMNS = {
+  articles: {
+    sheet: 'insurance_news_log',
+    required: ['title', 'publishDate'],
+    aliases: {
+      id: [HIDDEN_COLUMNS.id, 'Record ID'],
+      date: ['Date'],
+      title: ['Title', 'Headline'],
+      articleLink: ['Article Link', 'Artical Link', 'Link', 'URL'],
+      linkedinPost: ['LinkedIn Post', 'LinkedIn'],
+      twitterPost: ['Twitter Post', 'Twitter', 'X Post'],
+      publishDate: ['Publish Date', 'Published', 'Post Date'],
+    },
+  },
+  schedule: {
+    sheet: 'Post Scheduling',
+    required: ['agentName'],
+    aliases: {
+      id: [HIDDEN_COLUMNS.id, 'Record ID'],
+      agentName: ['Agent Name', 'Agent', 'Name'],
+      sunday: ['Sunday', 'Sun'],
+      monday: ['Monday', 'Mon'],
+      tuesday: ['Tuesday', 'Tue', 'Tues'],
+      wednesday: ['Wednesday', 'Wed'],
+      thursday: ['Thursday', 'Thu', 'Thurs'],
+      friday: ['Friday', 'Fri'],
+      saturday: ['Saturday', 'Sat'],
+    },
+  },
+  stories: {
+    sheet: 'customer success post defy insurance',
+    required: ['date'],
+    aliases: {
+      id: [HIDDEN_COLUMNS.id, 'Record ID'],
+      date: ['Date'],
+      twitterCaption: ['Twitter Caption', 'Twitter', 'X Caption'],
+      linkedinCaption: ['LinkedIn Caption', 'LinkedIn'],
+      completedOn: ['Completed On', 'Completed', 'Posted On'],
+    },
+  },
+  metrics: {
+    sheet: 'Defy insurnace week metrics',
+    required: ['agent', 'weekEnd'],
+    aliases: {
+      id: [HIDDEN_COLUMNS.id, 'Record ID'],
+      status: ['Status'],
+      campaign: ['Campaign', 'Campaign Type'],
+      message: ['Message', 'Message Template'],
+      audience: ['Audience'],
+      agent: ['Agent', 'Agent Name'],
+      acceptanceRate: ['Acceptance Rate', 'Accept %', 'Acceptance %'],
+      replies: ['Replies', 'Replied'],
+      replyPercent: ['Reply %', 'Reply Rate'],
+      defyLead: ['Defy Lead', 'Lead'],
+      target: ['Target'],
+      algoType: ['Algo Type', 'Algorithm Type', 'Algo'],
+      weekEnd: ['Week End', 'W. End', 'Week Ending', 'Week End Date'],
+      location: ['Location'],
+      queue: ['Queue'],
+      totalInvited: ['Total Invited', 'Invited'],
+      totalAccepted: ['Total Accepted', 'Accepted'],
+      netNewConnects: ['Net New Connects', 'Net Connects', 'Net New Connections'],
+      startingConnects: ['Starting Connects', 'Start Connects', 'Starting Connections'],
+      endingConnections: ['Ending Connections', 'End Connects', 'Ending Connects'],
+      totalMessaged: ['Total Messaged', 'Messaged'],
+      totalActions: ['Total Actions', 'Actions'],
+      archivedAt: [HIDDEN_COLUMNS.archivedAt, 'Archived'],
+    },
+  },
+  audit: {
+    sheet: 'Audit Log',
+    required: ['timestamp', 'recordId', 'field'],
+    aliases: {
+      timestamp: ['Timestamp'],
+      userEmail: ['User Email'],
+      userName: ['User Name'],
+      action: ['Action'],
+      recordId: ['Record ID', 'Row ID'],
+      field: ['Field'],
+      oldValue: ['Old Value'],
+      newValue: ['New Value'],
+    },
+  },
+  users: {
+    sheet: 'Users',
+    required: ['email', 'password', 'active'],
+    aliases: {
+      email: ['Email', 'Email Address'],
+      password: ['Password', 'Password Hash'],
+      name: ['Name', 'Full Name'],
+      role: ['Role'],
+      active: ['Active', 'Enabled'],
+      sessionVersion: [HIDDEN_COLUMNS.sessionVersion],
+    },
+  },
+};
+
+// "Publish Date" / "publish_date" / "publishDate" -> "publishdate"; "Reply %" -> "replypercent"
+export function normalizeHeader(header) {
+  return String(header || '')
+    .toLowerCase()
+    .replace(/%/g, 'percent')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function readExtraAliases() {
+  if (!process.env.SHEET_HEADER_ALIASES) return {};
+  try {
+    return JSON.parse(process.env.SHEET_HEADER_ALIASES);
+  } catch (error) {
+    console.warn('Ignoring SHEET_HEADER_ALIASES - not valid JSON:', error.message);
+    return {};
+  }
+}
+
+// Alias lists for a tab, with any SHEET_HEADER_ALIASES entries appended
+function aliasesFor(table) {
+  const extra = readExtraAliases()[table] || {};
+  const { aliases } = SHEET_COLUMNS[table];
+  return Object.fromEntries(Object.entries(aliases).map(([field, names]) => [
+    field,
+    [field, ...names, ...(extra[field] || [])].map(normalizeHeader),
+  ]));
+}
+
+// Map each field of a tab to its column index in `headerRow`.
+// Optional fields without a matching header are left out; missing required
+// fields raise an error naming every one of them.
+export function mapColumns(table, headerRow) {
+  const { sheet, required } = SHEET_COLUMNS[table];
+  const headers = (headerRow || []).map(normalizeHeader);
+  const columns = {};
+
+  for (const [field, names] of Object.entries(aliasesFor(table))) {
+    const index = headers.findIndex(header => header && names.includes(header));
+    if (index !== -1) {
+      columns[field] = index;
+    }
+  }
+
+  const missing = required.filter(field => !(field in columns));
+  if (missing.length > 0) {
+    const expected = missing.map(field => `${field} (${SHEET_COLUMNS[table].aliases[field].join(' / ')})`);
+    throw new HttpError(500, `Sheet "${sheet}" is missing required column(s): ${expected.join(', ')}`, {
+      sheet,
+      missingHeaders: missing,
+    });
+  }
+
+  return columns;
+}
+
+// Spreadsheet column letter for a 0-based index (0 -> A, 26 -> AA)
+export function columnLetter(index) {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
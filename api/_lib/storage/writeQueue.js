@@ -0,0 +1,11 @@
+// Runs storage operations one at a time within this process.
+// Each task starts once the previous one has settled, whether it succeeded or not.
+export function createWriteQueue() {
+  let tail = Promise.resolve();
+
+  return function enqueue(task) {
+    const result = tail.then(() => task());
+    tail = result.catch(() => {});
+    return result;
+  };
+}
@@ -0,0 +1,154 @@
+// User administration over the storage adapter's users (email, password, name, role, active).
+// Shared by the Express server and the Vercel /api/users functions.
+import crypto from 'crypto';
+import { HttpError } from './httpError.js';
+import { hashPassword } from './passwords.js';
+import { isDemoAccount, demoAccountsEnabled } from './demoAccounts.js';
+
+export const USER_ROLES = ['admin', 'manager', 'viewer'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toSafeUser({ password: _pass, sessionVersion: _version, ...user }) {
+  return user;
+}
+
+// Random temporary password handed to the admin once on invite/reset
+function generateTemporaryPassword() {
+  return crypto.randomBytes(9).toString('base64url');
+}
+
+function findUser(users, email) {
+  const user = users.find(u => u.email.toLowerCase() === String(email || '').toLowerCase());
+  if (!user) {
+    throw new HttpError(404, `User ${email} not found`);
+  }
+  return user;
+}
+
+function validateRole(role) {
+  if (!USER_ROLES.includes(role)) {
+    throw new HttpError(400, `Role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+}
+
+function validateName(name) {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new HttpError(400, 'Name is required');
+  }
+  if (name.trim().length > 100) {
+    throw new HttpError(400, 'Name must be 100 characters or fewer');
+  }
+}
+
+// Prevent changes that would leave the dashboard without an active admin
+function assertAdminRemains(users, target, nextState) {
+  const wasActiveAdmin = target.role === 'admin' && target.active;
+  const staysActiveAdmin = nextState.role === 'admin' && nextState.active;
+  if (!wasActiveAdmin || staysActiveAdmin) return;
+
+  const otherAdmins = users.filter(u => u !== target && u.role === 'admin' && u.active);
+  if (otherAdmins.length === 0) {
+    throw new HttpError(409, 'At least one active admin is required');
+  }
+}
+
+// Whether the account behind a session token is still active with the role the token
+// carries, and its password has not been reset or changed since the token was issued.
+// Demo accounts have no stored row and stay valid while they are enabled.
+export async function isSessionCurrent(storage, session) {
+  if (isDemoAccount(session.id)) return demoAccountsEnabled();
+  const users = await storage.listUsers();
+  const user = users.find(u => u.email.toLowerCase() === String(session.email || '').toLowerCase());
+  return Boolean(user && user.active && user.role === session.role && user.sessionVersion === session.sessionVersion);
+}
+
+// The user with their session version raised, which signs out every session issued before
+export function withNewSessionVersion(user) {
+  return { ...user, sessionVersion: (user.sessionVersion || 0) + 1 };
+}
+
+export async function listUsers(storage) {
+  const users = await storage.listUsers();
+  return users.map(toSafeUser);
+}
+
+// Add a new user with a temporary password
+export async function inviteUser(storage, { email, name, role = 'viewer' }) {
+  const normalizedEmail = String(email || '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(normalizedEmail)) {
+    throw new HttpError(400, 'A valid email address is required');
+  }
+  validateName(name);
+  validateRole(role);
+
+  const users = await storage.listUsers();
+  if (users.some(u => u.email.toLowerCase() === normalizedEmail)) {
+    throw new HttpError(409, `A user with email ${normalizedEmail} already exists`);
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  const user = {
+    email: normalizedEmail,
+    password: await hashPassword(temporaryPassword),
+    name: name.trim(),
+    role,
+    active: true
+  };
+
+  const stored = await storage.addUser(user);
+
+  return { user: toSafeUser(stored), temporaryPassword };
+}
+
+// Change a user's name, role or active flag
+export async function updateUser(storage, actor, { email, changes }) {
+  if (!changes || typeof changes !== 'object') {
+    throw new HttpError(400, 'email and changes are required');
+  }
+
+  const allowedFields = ['name', 'role', 'active'];
+  const invalidFields = Object.keys(changes).filter(f => !allowedFields.includes(f));
+  if (invalidFields.length > 0) {
+    throw new HttpError(400, `Cannot update: ${invalidFields.join(', ')}`);
+  }
+
+  const users = await storage.listUsers();
+  const target = findUser(users, email);
+  const next = { ...target };
+
+  if ('name' in changes) {
+    validateName(changes.name);
+    next.name = changes.name.trim();
+  }
+  if ('role' in changes) {
+    validateRole(changes.role);
+    next.role = changes.role;
+  }
+  if ('active' in changes) {
+    if (typeof changes.active !== 'boolean') {
+      throw new HttpError(400, 'active must be true or false');
+    }
+    next.active = changes.active;
+  }
+
+  const isSelf = target.email.toLowerCase() === actor.email.toLowerCase();
+  if (isSelf && (next.role !== target.role || !next.active)) {
+    throw new HttpError(409, 'You cannot change your own role or deactivate yourself');
+  }
+  assertAdminRemains(users, target, next);
+
+  await storage.updateUser(target.email, next);
+  return toSafeUser(next);
+}
+
+// Replace a user's password with a new temporary one
+export async function resetUserPassword(storage, { email }) {
+  const users = await storage.listUsers();
+  const target = findUser(users, email);
+
+  const temporaryPassword = generateTemporaryPassword();
+  await storage.updateUser(target.email, { ...withNewSessionVersion(target), password: await hashPassword(temporaryPassword) });
+
+  return { user: toSafeUser(target), temporaryPassword };
+}
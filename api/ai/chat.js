@@ -1,82 +1,5 @@
-// AI Chat endpoint - proxies requests to OpenAI with custom model
-export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+// AI Chat endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { chat } from '../_lib/handlers/ai.js';
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  try {
-    const { messages, temperature = 0.7, max_tokens = 2000 } = req.body;
-
-    if (!messages || !Array.isArray(messages)) {
-      return res.status(400).json({ error: 'Messages array is required' });
-    }
-
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-    if (!OPENAI_API_KEY) {
-      return res.status(500).json({ error: 'OpenAI API key not configured' });
-    }
-
-    // Call OpenAI API with custom model "chickytutor"
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'chickytutor',  // Your custom fine-tuned model
-        messages: messages,
-        temperature: temperature,
-        max_tokens: max_tokens,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error('OpenAI API error:', errorData);
-
-      // Fallback to gpt-4 if custom model fails
-      if (errorData.error?.code === 'model_not_found') {
-        const fallbackResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',  // Fallback model
-            messages: messages,
-            temperature: temperature,
-            max_tokens: max_tokens,
-          }),
-        });
-
-        if (fallbackResponse.ok) {
-          const data = await fallbackResponse.json();
-          return res.status(200).json(data);
-        }
-      }
-
-      return res.status(response.status).json({
-        error: errorData.error?.message || 'Failed to get AI response'
-      });
-    }
-
-    const data = await response.json();
-    return res.status(200).json(data);
-
-  } catch (error) {
-    console.error('AI Chat error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-}
+export default createVercelHandler(chat);
@@ -0,0 +1,5 @@
+// Metric alerts endpoint for Vercel
+import { createVercelHandler } from './_lib/http.js';
+import { listAlerts } from './_lib/handlers/alerts.js';
+
+export default createVercelHandler(listAlerts);
@@ -0,0 +1,5 @@
+// Audit log endpoint for Vercel
+import { createVercelHandler } from './_lib/http.js';
+import { listAuditLog } from './_lib/handlers/audit.js';
+
+export default createVercelHandler(listAuditLog);
@@ -0,0 +1,5 @@
+// Change password endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { changePassword } from '../_lib/handlers/auth.js';
+
+export default createVercelHandler(changePassword);
@@ -0,0 +1,6 @@
+// Live change stream (Server-Sent Events) endpoint for Vercel.
+// The function timeout ends the stream; EventSource reconnects automatically.
+import { createVercelHandler } from './_lib/http.js';
+import { events } from './_lib/handlers/events.js';
+
+export default createVercelHandler(events);
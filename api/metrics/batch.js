@@ -0,0 +1,5 @@
+// Batch update week metrics endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { batchUpdateMetrics } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(batchUpdateMetrics);
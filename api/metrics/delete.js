@@ -0,0 +1,5 @@
+// Archive (soft delete) week metrics endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { archiveMetrics } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(archiveMetrics);
@@ -0,0 +1,5 @@
+// Metric row history endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { metricHistory } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(metricHistory);
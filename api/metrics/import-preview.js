@@ -0,0 +1,5 @@
+// Week metrics import dry run endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { previewImport } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(previewImport);
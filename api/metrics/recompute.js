@@ -0,0 +1,5 @@
+// Recompute derived week metrics columns endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { recomputeMetrics } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(recomputeMetrics);
@@ -0,0 +1,5 @@
+// Restore archived week metrics endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { restoreMetrics } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(restoreMetrics);
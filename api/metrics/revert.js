@@ -0,0 +1,5 @@
+// Revert week metrics row endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { revertMetric } from '../_lib/handlers/metrics.js';
+
+export default createVercelHandler(revertMetric);
@@ -0,0 +1,5 @@
+// List users endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { listUsers } from '../_lib/handlers/users.js';
+
+export default createVercelHandler(listUsers);
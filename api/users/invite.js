@@ -0,0 +1,5 @@
+// Invite user endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { inviteUser } from '../_lib/handlers/users.js';
+
+export default createVercelHandler(inviteUser);
@@ -0,0 +1,5 @@
+// Reset user password endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { resetPassword } from '../_lib/handlers/users.js';
+
+export default createVercelHandler(resetPassword);
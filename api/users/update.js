@@ -0,0 +1,5 @@
+// Update user endpoint for Vercel
+import { createVercelHandler } from '../_lib/http.js';
+import { updateUser } from '../_lib/handlers/users.js';
+
+export default createVercelHandler(updateUser);
@@ -0,0 +1,212 @@
+// Check the shared analytics, forecast, experiment, funnel and anomaly modules against a fixture with known totals.
+//
+// Usage:
+//   npm run check:analytics
+//
+// The fixture (scripts/fixtures/week-metrics.json) mixes the cell formats the sheet
+// holds - thousands separators, stray %, ISO and M/D/YYYY week ends, blanks and an
+// unreadable date - so every analytics view is checked against the same numbers.
+// Exits non-zero on the first mismatch.
+import assert from 'assert/strict';
+import { readFile } from 'fs/promises';
+import {
+  sumMetrics, aggregateBy, agentPerformance, metricTrend, calculateTrend, predictFuture, networkSize,
+} from '../shared/analytics.js';
+import { forecastSeries } from '../shared/forecast.js';
+import { compareVariants, probabilityBetter, twoProportionZTest } from '../shared/experiments.js';
+import { funnelOf, funnelBy, comparePeriods } from '../shared/funnel.js';
+import { detectAnomalies } from '../shared/anomalies.js';
+
+const fixtureUrl = new URL('./fixtures/week-metrics.json', import.meta.url);
+
+const round = (num, places = 2) => Math.round(num * 10 ** places) / 10 ** places;
+const pick = (groups, fields) => groups.map(group => Object.fromEntries(fields.map(field => [field, group[field]])));
+
+const CHECKS = {
+  'totals across all rows': (rows) => {
+    const totals = sumMetrics(rows);
+    assert.deepEqual(
+      { ...totals, acceptanceRate: round(totals.acceptanceRate), replyRate: round(totals.replyRate), engagementRate: round(totals.engagementRate) },
+      {
+        rows: 6, weeks: 3, agents: 2, campaigns: 2,
+        invited: 1630, accepted: 165.5, messaged: 100, replies: 19, leads: 3, actions: 535, netNew: 131,
+        networkSize: 1633, acceptanceRate: 10.15, replyRate: 19, engagementRate: 11.48,
+      }
+    );
+  },
+
+  'network size uses each agent\'s latest week with a value': (rows) => {
+    assert.equal(networkSize(rows), 1118 + 515);
+  },
+
+  'weeks are merged across date formats, oldest first': (rows) => {
+    assert.deepEqual(pick(aggregateBy(rows, 'week'), ['key', 'invited', 'accepted', 'rows']), [
+      { key: '1/2/2026', invited: 180, accepted: 46, rows: 2 },
+      { key: '1/9/2026', invited: 1200, accepted: 40, rows: 1 },
+      { key: '1/16/2026', invited: 240, accepted: 78.5, rows: 2 },
+    ]);
+  },
+
+  'months skip unreadable week ends': (rows) => {
+    assert.deepEqual(pick(aggregateBy(rows, 'month'), ['key', 'invited', 'weeks']), [
+      { key: '2026-01', invited: 1620, weeks: 3 },
+    ]);
+  },
+
+  'blank locations and audiences are left out': (rows) => {
+    assert.deepEqual(pick(aggregateBy(rows, 'location'), ['key', 'invited']), [
+      { key: 'USA', invited: 1310 },
+      { key: 'Canada', invited: 170 },
+    ]);
+    assert.deepEqual(pick(aggregateBy(rows, 'audience'), ['key', 'invited']), [
+      { key: 'Life Insurance Agents', invited: 1300 },
+      { key: 'P&C Brokers', invited: 180 },
+    ]);
+  },
+
+  'agents are scored and tiered the same way everywhere': (rows) => {
+    assert.deepEqual(
+      agentPerformance(rows).map(({ key, weeks, score, tier }) => ({ key, weeks, score, tier: tier.key })),
+      [
+        { key: 'Ann', weeks: 3, score: 50, tier: 'average' },
+        { key: 'Bo', weeks: 2, score: 30, tier: 'weak' },
+      ]
+    );
+  },
+
+  'trends need both slope and fit': (rows) => {
+    const weeklyInvites = aggregateBy(rows, 'week').map(week => week.invited);
+    assert.equal(metricTrend(weeklyInvites).direction, 'stable');
+    assert.equal(round(metricTrend(weeklyInvites).slope), 30);
+    assert.equal(calculateTrend([1, 2, 3, 4]), 'up');
+    assert.equal(calculateTrend([4, 3, 2, 1]), 'down');
+  },
+
+  'forecasts extend the line and never go negative': () => {
+    assert.deepEqual(predictFuture([1, 2, 3, 4], 2), [5, 6]);
+    assert.deepEqual(predictFuture([3, 2, 1], 3), [0, 0, 0]);
+  },
+
+  'forecast picks the model that backtests best': () => {
+    const straight = forecastSeries(Array.from({ length: 12 }, (_, i) => 10 + 2 * i), 2);
+    assert.equal(straight.method, 'linear');
+    assert.deepEqual(straight.points.map(point => round(point.value)), [34, 36]);
+
+    const seasonal = Array.from({ length: 20 }, (_, i) => 100 + i * 3 + [20, -10, 5, -15][i % 4]);
+    const forecast = forecastSeries(seasonal, 4);
+    assert.equal(forecast.method, 'holtWinters');
+    assert.ok(forecast.accuracy.mape < 1, `MAPE ${forecast.accuracy.mape} on a clean seasonal series`);
+  },
+
+  'prediction intervals widen with the horizon and respect bounds': () => {
+    const { points, accuracy } = forecastSeries([30, 25, 35, 28, 32, 27, 31, 29, 33, 26], 4, { max: 100 });
+    const widths = points.map(point => point.upper - point.lower);
+    assert.ok(widths.every((width, i) => i === 0 || width >= widths[i - 1]), `widths ${widths}`);
+    assert.ok(points.every(point => point.lower >= 0 && point.upper <= 100 && point.lower <= point.value && point.value <= point.upper));
+    assert.equal(accuracy.points, 6);
+
+    assert.equal(forecastSeries([5, 7, 6], 1).accuracy, null);
+  },
+
+  'significance tests match the textbook values': () => {
+    const test = twoProportionZTest(200, 1000, 240, 1000);
+    assert.deepEqual([round(test.diff), round(test.z), round(test.pValue, 3)], [4, 2.16, 0.031]);
+    assert.equal(round(probabilityBetter(200, 1000, 240, 1000), 3), 0.985);
+    assert.equal(round(probabilityBetter(10, 100, 10, 100), 3), 0.5);
+  },
+
+  'experiments need a clear gap and enough trials for a winner': () => {
+    const clear = compareVariants([
+      { key: 'A', successes: 200, trials: 1000 },
+      { key: 'B', successes: 260, trials: 1000 },
+    ]);
+    assert.deepEqual([clear.verdict, clear.leader], ['winner', 'B']);
+
+    const close = compareVariants([
+      { key: 'A', successes: 200, trials: 1000 },
+      { key: 'B', successes: 210, trials: 1000 },
+    ]);
+    assert.equal(close.verdict, 'inconclusive');
+    assert.ok(close.warnings.some(warning => warning.includes('trials per variant')));
+
+    // A significant pair alone, but not once the level is split across three comparisons
+    const split = compareVariants([
+      { key: 'A', successes: 200, trials: 1000 },
+      { key: 'B', successes: 240, trials: 1000 },
+      { key: 'C', successes: 150, trials: 1000 },
+    ]);
+    assert.equal(split.verdict, 'inconclusive');
+
+    assert.equal(compareVariants([
+      { key: 'A', successes: 5, trials: 40 },
+      { key: 'B', successes: 260, trials: 1000 },
+    ]).verdict, 'insufficient');
+  },
+
+  'funnel converts each stage from the one before': (rows) => {
+    const funnel = funnelOf(rows);
+    assert.deepEqual(
+      funnel.stages.map(({ key, count, conversion }) => ({ key, count, conversion: conversion === null ? null : round(conversion) })),
+      [
+        { key: 'invited', count: 1630, conversion: null },
+        { key: 'accepted', count: 165.5, conversion: 10.15 },
+        { key: 'messaged', count: 100, conversion: 60.42 },
+        { key: 'replies', count: 19, conversion: 19 },
+        { key: 'leads', count: 3, conversion: 15.79 },
+      ]
+    );
+    assert.equal(funnel.weakestStep, 'accepted');
+  },
+
+  'funnel drop-offs are flagged against all rows': (rows) => {
+    assert.deepEqual(
+      funnelBy(rows, 'agent').map(group => ({ key: group.key, flagged: group.stages.filter(stage => stage.flagged).map(stage => stage.key) })),
+      [
+        { key: 'Ann', flagged: [] },
+        { key: 'Bo', flagged: ['messaged', 'replies', 'leads'] },
+      ]
+    );
+  },
+
+  'funnel compares the latest period with the one before': (rows) => {
+    const { previous, current, changes } = comparePeriods(rows, 'week');
+    assert.deepEqual([previous.key, current.key], ['1/9/2026', '1/16/2026']);
+    assert.deepEqual(changes.map(change => change.count), [-960, 38.5, 10, 4, 1]);
+    assert.equal(comparePeriods(rows, 'month'), null);
+  },
+
+  'anomalies flag sudden drops against each agent\'s own weeks': () => {
+    const weekEnds = Array.from({ length: 10 }, (_, i) => new Date(Date.UTC(2026, 0, 2 + 7 * i)).toISOString().slice(0, 10));
+    const invited = [100, 110, 95, 105, 100, 98, 102, 0, 100, 104];
+    const accepted = [25, 27, 24, 26, 25, 24, 26, 0, 8, 26];
+    const rows = weekEnds.flatMap((weekEnd, i) => [
+      { agent: 'Ann', weekEnd, totalInvited: String(invited[i]), totalAccepted: String(accepted[i]), totalMessaged: '20', replies: '3' },
+      // Steady within normal spread: never flagged
+      { agent: 'Bo', weekEnd, totalInvited: String(50 + (i % 3) * 4), totalAccepted: String(10 + (i % 2)), totalMessaged: '10', replies: '2' },
+    ]);
+
+    assert.deepEqual(
+      detectAnomalies(rows, { recentWeeks: null }).map(({ agent, metric, severity }) => ({ agent, metric, severity })),
+      [
+        { agent: 'Ann', metric: 'acceptanceRate', severity: 'critical' },
+        { agent: 'Ann', metric: 'invited', severity: 'critical' },
+      ]
+    );
+    assert.deepEqual(detectAnomalies(rows, { recentWeeks: 2 }).map(alert => alert.metric), ['acceptanceRate']);
+    assert.deepEqual(detectAnomalies(rows.slice(0, 8)), []);
+  },
+};
+
+async function main() {
+  const rows = JSON.parse(await readFile(fixtureUrl, 'utf8'));
+  for (const [name, check] of Object.entries(CHECKS)) {
+    check(rows);
+    console.log(`  ok - ${name}`);
+  }
+  console.log(`OK - ${Object.keys(CHECKS).length} analytics checks passed.`);
+}
+
+main().catch(error => {
+  console.error('Analytics check failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+// Check the import wizard's date parsing against the layouts outreach tool exports use.
+//
+// Usage:
+//   npm run check:import-dates
+//
+// The fixture (scripts/fixtures/import-dates.json) pairs date cells with the day they
+// should read as (YYYY-MM-DD, or null for cells that are not dates). Two-digit years
+// such as 1/5/26 must land in this century, not in the year 26.
+// Exits non-zero when any cell reads as a different day.
+import { readFile } from 'fs/promises';
+import { parseImportDate } from '../shared/importDates.js';
+
+const fixtureUrl = new URL('./fixtures/import-dates.json', import.meta.url);
+
+const pad = num => String(num).padStart(2, '0');
+const dayOf = date => (date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : null);
+
+async function main() {
+  const cases = JSON.parse(await readFile(fixtureUrl, 'utf8'));
+  const failures = cases
+    .map(({ cell, date }) => ({ cell, expected: date, actual: dayOf(parseImportDate(cell)) }))
+    .filter(({ expected, actual }) => expected !== actual);
+
+  for (const { cell, expected, actual } of failures) {
+    console.error(`FAIL - ${JSON.stringify(cell)}: expected ${expected}, got ${actual}`);
+  }
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+  console.log(`OK - ${cases.length} import date cells parsed as expected.`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+// Fire many metric adds at once and check that none of them collided.
+//
+// Usage:
+//   npm run check:parallel-adds                     - against a throwaway local JSON file
+//   npm run check:parallel-adds -- --count=50       - number of simultaneous adds (default 25)
+//   npm run check:parallel-adds -- --configured     - against the configured DATA_SOURCE.
+//                                                     This writes real rows tagged "parallel-check-*".
+//
+// Exits non-zero when two adds share an id or a row, a row went missing, or an
+// existing row was changed.
+import os from 'os';
+import path from 'path';
+import { rm } from 'fs/promises';
+import { getStorage } from '../api/_lib/storage/index.js';
+import { createJsonFileStorage } from '../api/_lib/storage/jsonFile.js';
+
+const countArg = process.argv.find(arg => arg.startsWith('--count='));
+const count = countArg ? Number(countArg.split('=')[1]) : 25;
+const useConfigured = process.argv.includes('--configured');
+
+function findDuplicates(values) {
+  return values.filter((value, i) => values.indexOf(value) !== i);
+}
+
+async function main() {
+  const tempFile = path.join(os.tmpdir(), `parallel-adds-${process.pid}.json`);
+  const storage = useConfigured ? await getStorage() : await createJsonFileStorage(tempFile);
+  console.log(`Running ${count} parallel adds against the ${storage.name} storage...`);
+
+  try {
+    const before = await storage.listMetrics();
+    const tag = `parallel-check-${Date.now()}`;
+
+    const results = await Promise.all(Array.from({ length: count }, (_, i) =>
+      storage.addMetric({ agent: tag, queue: String(i), weekEnd: new Date().toLocaleDateString('en-US') })
+    ));
+
+    const after = await storage.listMetrics();
+    const added = after.filter(metric => metric.agent === tag);
+    const problems = [];
+
+    const duplicateIds = findDuplicates(results.map(result => result.id));
+    if (duplicateIds.length > 0) problems.push(`duplicate ids returned: ${duplicateIds.join(', ')}`);
+
+    const duplicateRows = findDuplicates(results.map(result => result.rowIndex));
+    if (duplicateRows.length > 0) problems.push(`several adds reported the same row: ${duplicateRows.join(', ')}`);
+
+    const missing = results.filter(result => !added.some(metric => metric.id === result.id));
+    if (missing.length > 0) problems.push(`${missing.length} added row(s) not found afterwards`);
+
+    const queues = new Set(added.map(metric => metric.queue));
+    if (added.length !== count || queues.size !== count) {
+      problems.push(`expected ${count} distinct tagged rows, found ${added.length} (${queues.size} distinct)`);
+    }
+
+    const changed = before.filter(metric => !after.some(m => m.id === metric.id && m.version === metric.version));
+    if (changed.length > 0) problems.push(`${changed.length} existing row(s) were overwritten or lost`);
+
+    if (problems.length > 0) {
+      problems.forEach(problem => console.error(`  - ${problem}`));
+      throw new Error('parallel adds collided');
+    }
+    console.log(`OK - ${count} rows added with distinct ids and rows, ${before.length} existing rows untouched.`);
+  } finally {
+    if (!useConfigured) {
+      await rm(tempFile, { force: true });
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('Parallel add check failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+// Hash any plaintext passwords left in the users collection of the data source.
+//
+// Usage:
+//   npm run migrate:passwords              - hash plaintext entries in place
+//   npm run migrate:passwords -- --dry-run - only report which users would change
+//
+// Uses the same DATA_SOURCE as the server. For Google Sheets, credentials come from
+// GOOGLE_CREDENTIALS or server/credentials.json.
+import { hashPassword, isPasswordHash } from '../api/_lib/passwords.js';
+import { getStorage } from '../api/_lib/storage/index.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  const storage = await getStorage();
+  const users = await storage.listUsers();
+  let hashed = 0;
+
+  for (const user of users) {
+    if (!user.password || isPasswordHash(user.password)) continue;
+
+    console.log(`${dryRun ? 'Would hash' : 'Hashing'} password for ${user.email}`);
+    if (!dryRun) {
+      await storage.updateUser(user.email, { ...user, password: await hashPassword(user.password) });
+      hashed++;
+    }
+  }
+
+  console.log(dryRun
+    ? 'Dry run complete - no changes written.'
+    : `Done. ${hashed} password(s) hashed.`);
+}
+
+main().catch(error => {
+  console.error('Password migration failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+import type { MetricsColumn } from './metrics';
+
+// The columns analytics read; any week metrics row type satisfies it
+export type AnalyticsRow = { [K in MetricsColumn]: string };
+
+export type AnalyticsDimension =
+  | 'week' | 'month' | 'agent' | 'campaign' | 'audience' | 'location' | 'message' | 'algoType';
+
+export type TrendDirection = 'up' | 'down' | 'stable';
+
+export interface Regression {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+export interface MetricTrend extends Regression {
+  direction: TrendDirection;
+}
+
+export interface MetricTotals {
+  rows: number;
+  // Distinct week ends, agents and campaigns among the rows
+  weeks: number;
+  agents: number;
+  campaigns: number;
+  invited: number;
+  accepted: number;
+  messaged: number;
+  replies: number;
+  // Defy leads, see leadCount
+  leads: number;
+  actions: number;
+  netNew: number;
+  networkSize: number;
+  acceptanceRate: number;
+  replyRate: number;
+  // Replies per accepted connection
+  engagementRate: number;
+}
+
+export interface MetricGroup extends MetricTotals {
+  key: string;
+}
+
+export type ScoreTierKey = 'elite' | 'strong' | 'average' | 'weak';
+
+export interface ScoreTier {
+  key: ScoreTierKey;
+  min: number;
+  label: string;
+}
+
+export interface AgentPerformance extends MetricGroup {
+  score: number;
+  tier: ScoreTier;
+}
+
+export function parseNum(val: string | undefined): number;
+
+export function safePercent(numerator: number, denominator: number): number;
+
+export function linearRegression(data: number[]): Regression;
+
+export function predictFuture(data: number[], periods: number): number[];
+
+export function calculateConfidenceInterval(
+  data: number[],
+  confidence?: number
+): { lower: number; upper: number; mean: number };
+
+export function calculateTrend(data: number[]): TrendDirection;
+
+export function metricTrend(data: number[]): MetricTrend;
+
+export function calculateAgentScore(
+  acceptanceRate: number,
+  replyRate: number,
+  volume: number,
+  consistency: number
+): number;
+
+export const SCORE_TIERS: ScoreTier[];
+
+export function getScoreTier(score: number): ScoreTier;
+
+export function weekEndTime(weekEnd: string | undefined): number;
+
+export function leadCount(value: string | undefined): number;
+
+export function networkSize(rows: AnalyticsRow[]): number;
+
+export function sumMetrics(rows: AnalyticsRow[]): MetricTotals;
+
+export function aggregateBy(rows: AnalyticsRow[], dimension: AnalyticsDimension): MetricGroup[];
+
+export function agentPerformance(rows: AnalyticsRow[]): AgentPerformance[];
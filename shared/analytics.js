@@ -0,0 +1,212 @@
+// Aggregation, trend and forecast math for week metrics, shared by every analytics view
+// (and the server) so the same rows always produce the same numbers.
+import { parseWeekEnd } from './metricsSchema.js';
+
+// Number in a cell, ignoring percentage signs and commas; 0 when blank or not a number
+export function parseNum(val) {
+  if (!val) return 0;
+  const num = parseFloat(String(val).replace(/[%,]/g, '').trim());
+  return isNaN(num) ? 0 : num;
+}
+
+// part / whole as a percentage, 0 when whole is 0
+export function safePercent(numerator, denominator) {
+  if (denominator === 0) return 0;
+  return (numerator / denominator) * 100;
+}
+
+// Least-squares line through the values at x = 0, 1, 2...
+export function linearRegression(data) {
+  const n = data.length;
+  if (n < 2) return { slope: 0, intercept: data[0] || 0, r2: 0 };
+
+  const xMean = (n - 1) / 2;
+  const yMean = data.reduce((a, b) => a + b, 0) / n;
+
+  let ssXY = 0, ssXX = 0, ssYY = 0;
+  for (let i = 0; i < n; i++) {
+    ssXY += (i - xMean) * (data[i] - yMean);
+    ssXX += (i - xMean) ** 2;
+    ssYY += (data[i] - yMean) ** 2;
+  }
+
+  const slope = ssXX !== 0 ? ssXY / ssXX : 0;
+  const intercept = yMean - slope * xMean;
+  const r2 = ssYY !== 0 ? (ssXY ** 2) / (ssXX * ssYY) : 0;
+
+  return { slope, intercept, r2 };
+}
+
+// The next `periods` values on the regression line, never below zero
+export function predictFuture(data, periods) {
+  const { slope, intercept } = linearRegression(data);
+  const predictions = [];
+  for (let i = 0; i < periods; i++) {
+    predictions.push(Math.max(0, slope * (data.length + i) + intercept));
+  }
+  return predictions;
+}
+
+export function calculateConfidenceInterval(data, confidence = 0.95) {
+  const n = data.length;
+  if (n === 0) return { lower: 0, upper: 0, mean: 0 };
+
+  const mean = data.reduce((a, b) => a + b, 0) / n;
+  const stdDev = Math.sqrt(data.reduce((sq, val) => sq + (val - mean) ** 2, 0) / n);
+  const z = confidence === 0.95 ? 1.96 : confidence === 0.99 ? 2.576 : 1.645;
+  const margin = z * (stdDev / Math.sqrt(n));
+
+  return { lower: mean - margin, upper: mean + margin, mean };
+}
+
+// A trend needs a slope of at least this much per period...
+const TREND_SLOPE = 0.5;
+// ...and a line that explains at least this share of the variation
+const TREND_FIT = 0.3;
+
+export function calculateTrend(data) {
+  const { slope, r2 } = linearRegression(data);
+  if (Math.abs(slope) < TREND_SLOPE || r2 < TREND_FIT) return 'stable';
+  return slope > 0 ? 'up' : 'down';
+}
+
+// Regression line of a series with its direction
+export function metricTrend(data) {
+  return { ...linearRegression(data), direction: calculateTrend(data) };
+}
+
+// Agent performance score (0-100).
+// Weights: acceptance 35% (full at 50%), reply 30% (full at 30%), volume 20% (full at
+// 1000 invites), consistency 15% (full at 12 weeks).
+export function calculateAgentScore(acceptanceRate, replyRate, volume, consistency) {
+  const acceptanceScore = Math.min(100, (acceptanceRate / 50) * 100) * 0.35;
+  const replyScore = Math.min(100, (replyRate / 30) * 100) * 0.30;
+  const volumeScore = Math.min(100, (volume / 1000) * 100) * 0.20;
+  const consistencyScore = Math.min(100, (consistency / 12) * 100) * 0.15;
+
+  return Math.round(acceptanceScore + replyScore + volumeScore + consistencyScore);
+}
+
+// Score bands, highest first
+export const SCORE_TIERS = [
+  { key: 'elite', min: 80, label: 'Elite' },
+  { key: 'strong', min: 60, label: 'Strong' },
+  { key: 'average', min: 40, label: 'Average' },
+  { key: 'weak', min: 0, label: 'Needs Work' },
+];
+
+export function getScoreTier(score) {
+  return SCORE_TIERS.find(tier => score >= tier.min) ?? SCORE_TIERS[SCORE_TIERS.length - 1];
+}
+
+// Week end as a timestamp for sorting; NaN when the cell is not a date
+export function weekEndTime(weekEnd) {
+  const date = parseWeekEnd(weekEnd) ?? new Date(weekEnd);
+  return date.getTime();
+}
+
+const pad = (num) => String(num).padStart(2, '0');
+
+// Grouping key of a row for each dimension; '' leaves the row out of that grouping.
+// Weeks are keyed M/D/YYYY and months YYYY-MM whichever way the sheet wrote the date.
+const GROUP_KEYS = {
+  week: (row) => {
+    const time = weekEndTime(row.weekEnd);
+    if (isNaN(time)) return '';
+    const date = new Date(time);
+    return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
+  },
+  month: (row) => {
+    const time = weekEndTime(row.weekEnd);
+    if (isNaN(time)) return '';
+    const date = new Date(time);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  },
+  agent: (row) => (row.agent || '').trim(),
+  campaign: (row) => (row.campaign || '').trim(),
+  audience: (row) => (row.audience || '').trim(),
+  location: (row) => (row.location || '').trim(),
+  message: (row) => (row.message || '').trim(),
+  algoType: (row) => (row.algoType || '').trim(),
+};
+
+const TIME_DIMENSIONS = ['week', 'month'];
+
+// Current network size: each agent's ending connections in their latest week that has one
+export function networkSize(rows) {
+  const latest = new Map();
+  for (const row of rows) {
+    if (!row.agent || !row.endingConnections) continue;
+    const time = weekEndTime(row.weekEnd);
+    const existing = latest.get(row.agent);
+    if (!existing || time > existing.time) latest.set(row.agent, { time, value: parseNum(row.endingConnections) });
+  }
+  return [...latest.values()].reduce((sum, { value }) => sum + value, 0);
+}
+
+// Defy leads recorded in a row: a number counts as that many, any other text (a lead's
+// name) as one
+export function leadCount(value) {
+  const text = (value || '').trim();
+  if (!text) return 0;
+  return /^\d+(\.\d+)?$/.test(text) ? parseFloat(text) : 1;
+}
+
+// Summed counts and rates of a set of rows
+export function sumMetrics(rows) {
+  const sum = (field) => rows.reduce((total, row) => total + parseNum(row[field]), 0);
+  const distinct = (key) => new Set(rows.map(GROUP_KEYS[key]).filter(Boolean)).size;
+
+  const invited = sum('totalInvited');
+  const accepted = sum('totalAccepted');
+  const messaged = sum('totalMessaged');
+  const replies = sum('replies');
+
+  return {
+    rows: rows.length,
+    weeks: distinct('week'),
+    agents: distinct('agent'),
+    campaigns: distinct('campaign'),
+    invited,
+    accepted,
+    messaged,
+    replies,
+    leads: rows.reduce((total, row) => total + leadCount(row.defyLead), 0),
+    actions: sum('totalActions'),
+    netNew: sum('netNewConnects'),
+    networkSize: networkSize(rows),
+    acceptanceRate: safePercent(accepted, invited),
+    replyRate: safePercent(replies, messaged),
+    engagementRate: safePercent(replies, accepted),
+  };
+}
+
+// Totals per week, month or value of a text column (agent, campaign, message...).
+// Rows with a blank value (or an unreadable week end) are left out. Weeks and months
+// come oldest first, the rest by invites sent.
+export function aggregateBy(rows, dimension) {
+  const keyOf = GROUP_KEYS[dimension];
+  const groups = new Map();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(row);
+  }
+
+  const result = [...groups.entries()].map(([key, groupRows]) => ({ key, ...sumMetrics(groupRows) }));
+  if (TIME_DIMENSIONS.includes(dimension)) {
+    return result.sort((a, b) => (dimension === 'week' ? weekEndTime(a.key) - weekEndTime(b.key) : a.key.localeCompare(b.key)));
+  }
+  return result.sort((a, b) => b.invited - a.invited || a.key.localeCompare(b.key));
+}
+
+// Score and tier of each agent, best first
+export function agentPerformance(rows) {
+  return aggregateBy(rows, 'agent')
+    .map(group => {
+      const score = calculateAgentScore(group.acceptanceRate, group.replyRate, group.invited, group.weeks);
+      return { ...group, score, tier: getScoreTier(score) };
+    })
+    .sort((a, b) => b.score - a.score);
+}
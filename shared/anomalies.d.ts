@@ -0,0 +1,30 @@
+import type { AnalyticsRow, MetricGroup } from './analytics';
+
+export type AlertMetric = 'invited' | 'acceptanceRate' | 'replyRate';
+
+export type AlertSeverity = 'critical' | 'warning';
+
+export const ALERT_METRICS: {
+  key: AlertMetric;
+  label: string;
+  rate: boolean;
+  value: (week: MetricGroup) => number | null;
+}[];
+
+export interface MetricAlert {
+  // Agent, metric and week; stable across runs
+  id: string;
+  agent: string;
+  metric: AlertMetric;
+  label: string;
+  week: string;
+  value: number;
+  // Median of the weeks the value was compared with
+  baseline: number;
+  // null when those weeks were all the same
+  zScore: number | null;
+  severity: AlertSeverity;
+  message: string;
+}
+
+export function detectAnomalies(rows: AnalyticsRow[], options?: { recentWeeks?: number | null }): MetricAlert[];
@@ -0,0 +1,105 @@
+// Anomaly detection on weekly metrics. Each agent's week is compared with the agent's
+// recorded weeks before it, and flagged when both a rolling z-score and the IQR fence of
+// that window call it a drop. Only drops are reported: a collapse in acceptance or
+// invites stopping (LinkedIn restriction, paused queue) needs action, a good week doesn't.
+import { aggregateBy, weekEndTime } from './analytics.js';
+
+// Weeks before the checked one that form its baseline
+const WINDOW_WEEKS = 8;
+
+// Fewer weeks of history than this and a week is not checked
+const MIN_HISTORY = 4;
+
+const Z_WARNING = 2;
+const Z_CRITICAL = 3;
+
+// Tukey's fence: below Q1 - 1.5 * IQR is an outlier
+const IQR_FENCE = 1.5;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Values checked per agent and week; a rate is skipped in weeks without its denominator
+export const ALERT_METRICS = [
+  { key: 'invited', label: 'Invites', rate: false, value: (week) => week.invited },
+  { key: 'acceptanceRate', label: 'Acceptance rate', rate: true, value: (week) => (week.invited > 0 ? week.acceptanceRate : null) },
+  { key: 'replyRate', label: 'Reply rate', rate: true, value: (week) => (week.messaged > 0 ? week.replyRate : null) },
+];
+
+// Value at quantile q of sorted values, interpolating between neighbours
+function quantile(sorted, q) {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function windowStats(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  return { mean, sd, median: quantile(sorted, 0.5), fence: q1 - IQR_FENCE * (q3 - q1) };
+}
+
+const formatValue = (metric, value) => (metric.rate ? `${value.toFixed(1)}%` : String(Math.round(value)));
+
+// Alerts for one agent and metric over the agent's weeks (oldest first)
+function detectSeries(agent, metric, weeks) {
+  const points = weeks
+    .map(week => ({ week: week.key, value: metric.value(week) }))
+    .filter(point => point.value !== null);
+
+  const alerts = [];
+  for (let t = MIN_HISTORY; t < points.length; t++) {
+    const { week, value } = points[t];
+    const { mean, sd, median, fence } = windowStats(points.slice(Math.max(0, t - WINDOW_WEEKS), t).map(point => point.value));
+    if (value >= mean) continue;
+
+    const zScore = sd > 0 ? (value - mean) / sd : null;
+    const stopped = !metric.rate && value === 0 && median > 0;
+    // A flat history has no spread to score against, so losing half of it is the drop
+    const outlier = zScore === null ? value <= mean / 2 : value < fence && zScore <= -Z_WARNING;
+    if (!stopped && !outlier) continue;
+
+    alerts.push({
+      id: `${agent}:${metric.key}:${week}`,
+      agent,
+      metric: metric.key,
+      label: metric.label,
+      week,
+      value,
+      baseline: median,
+      zScore,
+      severity: value === 0 || (zScore !== null && zScore <= -Z_CRITICAL) ? 'critical' : 'warning',
+      message: stopped
+        ? `${metric.label} stopped: none in the week ending ${week}, usually ${formatValue(metric, median)}`
+        : `${metric.label} fell to ${formatValue(metric, value)} in the week ending ${week}, usually ${formatValue(metric, median)}`,
+    });
+  }
+  return alerts;
+}
+
+/**
+ * Alerts for every agent and ALERT_METRICS entry, critical first, then newest first.
+ * `recentWeeks` keeps the alerts of the latest weeks of the data (default 4); pass null
+ * for the whole history.
+ */
+export function detectAnomalies(rows, { recentWeeks = 4 } = {}) {
+  const alerts = aggregateBy(rows, 'agent').flatMap(({ key: agent }) => {
+    const weeks = aggregateBy(rows.filter(row => (row.agent || '').trim() === agent), 'week');
+    return ALERT_METRICS.flatMap(metric => detectSeries(agent, metric, weeks));
+  });
+
+  const weeks = aggregateBy(rows, 'week');
+  const since = recentWeeks && weeks.length > 0
+    ? weekEndTime(weeks[weeks.length - 1].key) - (recentWeeks - 1) * WEEK_MS
+    : -Infinity;
+
+  return alerts
+    .filter(alert => weekEndTime(alert.week) >= since)
+    .sort((a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1)
+      || weekEndTime(b.week) - weekEndTime(a.week)
+      || a.agent.localeCompare(b.agent));
+}
@@ -0,0 +1,15 @@
+import type { MetricsColumn } from './metrics';
+
+export type DerivedField = 'acceptanceRate' | 'replyPercent' | 'netNewConnects';
+
+export const DERIVED_FIELDS: Record<DerivedField, {
+  inputs: MetricsColumn[];
+  compute: (counts: number[]) => string;
+}>;
+
+export function deriveMetricFields(
+  values: { [K in MetricsColumn]?: unknown },
+  fields?: string[]
+): Partial<Record<DerivedField, string>>;
+
+export function derivedMismatches(values: { [K in MetricsColumn]?: unknown }): DerivedField[];
@@ -0,0 +1,47 @@
+// Week metrics columns that are functions of the raw counts. The server fills them in
+// on every write; the dashboard previews them and flags stored values that disagree.
+import { parseMetricNumber } from './metricsSchema.js';
+
+const percent = (part, whole) => (whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '0%');
+
+// Each derived field with the counts it is computed from
+export const DERIVED_FIELDS = {
+  acceptanceRate: {
+    inputs: ['totalAccepted', 'totalInvited'],
+    compute: ([accepted, invited]) => percent(accepted, invited),
+  },
+  replyPercent: {
+    inputs: ['replies', 'totalMessaged'],
+    compute: ([replies, messaged]) => percent(replies, messaged),
+  },
+  netNewConnects: {
+    inputs: ['endingConnections', 'startingConnects'],
+    compute: ([ending, starting]) => String(ending - starting),
+  },
+};
+
+// Stored values within rounding of the computed one count as matching
+const TOLERANCE = 0.05;
+
+// Derived values of the row `values`, for each derived field that it or one of its
+// inputs is among `fields`. Fields with a blank or non-numeric input are left out.
+export function deriveMetricFields(values, fields = Object.keys(values)) {
+  const derived = {};
+  for (const [field, { inputs, compute }] of Object.entries(DERIVED_FIELDS)) {
+    if (![field, ...inputs].some(name => fields.includes(name))) continue;
+    const counts = inputs.map(name => parseMetricNumber(values[name]));
+    if (counts.some(Number.isNaN)) continue;
+    derived[field] = compute(counts);
+  }
+  return derived;
+}
+
+// Derived fields whose stored value disagrees with the raw counts of the row
+export function derivedMismatches(values) {
+  return Object.entries(deriveMetricFields(values, Object.keys(DERIVED_FIELDS)))
+    .filter(([field, expected]) => {
+      const stored = parseMetricNumber(values[field]);
+      return Number.isNaN(stored) || Math.abs(stored - parseMetricNumber(expected)) > TOLERANCE;
+    })
+    .map(([field]) => field);
+}
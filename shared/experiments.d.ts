@@ -0,0 +1,59 @@
+export const MIN_TRIALS: number;
+
+export interface ZTest {
+  // Rate of B minus rate of A, in percentage points
+  diff: number;
+  z: number;
+  pValue: number;
+}
+
+export interface Variant {
+  key: string;
+  successes: number;
+  trials: number;
+}
+
+export interface VariantComparison extends Variant {
+  rate: number;
+  // Against the leader; 0 and null for the leader itself
+  diff: number;
+  z: number;
+  pValue: number | null;
+  // Probability that the leader's true rate is higher than this variant's
+  probabilityBetter: number | null;
+  significant: boolean;
+  // Trials per variant needed to detect the observed gap to the leader
+  requiredTrials: number | null;
+}
+
+export type ExperimentVerdict = 'winner' | 'inconclusive' | 'insufficient';
+
+export interface Experiment {
+  verdict: ExperimentVerdict;
+  leader: string | null;
+  // Significance level of each comparison after the Bonferroni split
+  alpha: number;
+  // Leader first, then by rate
+  variants: VariantComparison[];
+  warnings: string[];
+}
+
+export function normalCdf(z: number): number;
+
+export function twoProportionZTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): ZTest;
+
+export function probabilityBetter(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): number;
+
+export function requiredSampleSize(rateA: number, rateB: number): number;
+
+export function compareVariants(variants: Variant[], options?: { alpha?: number }): Experiment;
@@ -0,0 +1,143 @@
+// Significance tests for A/B comparisons of outreach variants (message templates,
+// audiences, campaigns...). Rates are compared as proportions: accepted out of invited,
+// replies out of messaged.
+import { safePercent } from './analytics.js';
+
+// Fewer trials than this per variant and no verdict is given
+export const MIN_TRIALS = 100;
+
+// The normal approximation behind the z-test needs this many successes and failures
+const MIN_OUTCOMES = 5;
+
+const Z_ALPHA = 1.96; // two-sided 5%
+const Z_POWER = 0.8416; // 80% power
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7)
+export function normalCdf(z) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Pooled two-proportion z-test of B against A; `diff` is in percentage points
+export function twoProportionZTest(successesA, trialsA, successesB, trialsB) {
+  const rateA = trialsA > 0 ? successesA / trialsA : 0;
+  const rateB = trialsB > 0 ? successesB / trialsB : 0;
+  const pooled = (successesA + successesB) / (trialsA + trialsB || 1);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / (trialsA || 1) + 1 / (trialsB || 1)));
+  const z = se > 0 ? (rateB - rateA) / se : 0;
+  return { diff: (rateB - rateA) * 100, z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+// Lanczos approximation of ln Γ(x) for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(x) {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const y = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (y + i);
+  const t = y + LANCZOS.length - 1.5;
+  return 0.5 * Math.log(2 * Math.PI) + (y + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+const logBeta = (a, b) => logGamma(a) + logGamma(b) - logGamma(a + b);
+
+// Counts as whole successes within the trials; half-accepted cells round to the nearest
+const counts = (successes, trials) => {
+  const n = Math.max(0, Math.round(trials));
+  return [Math.min(n, Math.max(0, Math.round(successes))), n];
+};
+
+/**
+ * Probability that B's true rate is higher than A's, with a uniform Beta(1, 1) prior
+ * on both. Exact sum over B's successes (Evan Miller's closed form), so the cost grows
+ * with B's success count.
+ */
+export function probabilityBetter(successesA, trialsA, successesB, trialsB) {
+  const [sA, nA] = counts(successesA, trialsA);
+  const [sB, nB] = counts(successesB, trialsB);
+  const alphaA = sA + 1, betaA = nA - sA + 1;
+  const alphaB = sB + 1, betaB = nB - sB + 1;
+
+  let total = 0;
+  for (let i = 0; i < alphaB; i++) {
+    total += Math.exp(
+      logBeta(alphaA + i, betaA + betaB) - Math.log(betaB + i) - logBeta(1 + i, betaB) - logBeta(alphaA, betaA)
+    );
+  }
+  return Math.min(1, Math.max(0, total));
+}
+
+// Trials each variant needs to detect rates `rateA` vs `rateB` (percentages) with a
+// two-sided 5% test at 80% power; Infinity when the rates are equal
+export function requiredSampleSize(rateA, rateB) {
+  const p1 = rateA / 100;
+  const p2 = rateB / 100;
+  if (p1 === p2) return Infinity;
+  const pBar = (p1 + p2) / 2;
+  const n = (Z_ALPHA * Math.sqrt(2 * pBar * (1 - pBar)) + Z_POWER * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2))) ** 2
+    / (p1 - p2) ** 2;
+  return Math.ceil(n);
+}
+
+/**
+ * Compare two or more variants (`{ key, successes, trials }`) on one rate. The variant
+ * with the highest rate leads and every other variant is tested against it, with the
+ * significance level split between the comparisons (Bonferroni). The verdict is
+ * 'winner' when the leader beats every other variant, 'insufficient' when a variant is
+ * below the minimum sample, and 'inconclusive' otherwise.
+ */
+export function compareVariants(variants, { alpha = 0.05 } = {}) {
+  const rows = variants
+    .map(variant => ({ ...variant, rate: safePercent(variant.successes, variant.trials) }))
+    .sort((a, b) => b.rate - a.rate || b.trials - a.trials);
+
+  if (rows.length < 2) {
+    return { verdict: 'insufficient', leader: rows[0]?.key ?? null, alpha, variants: [], warnings: ['Pick at least two variants to compare.'] };
+  }
+
+  const [leader] = rows;
+  const adjustedAlpha = alpha / (rows.length - 1);
+  const warnings = [];
+
+  for (const row of rows) {
+    if (row.trials < MIN_TRIALS) {
+      warnings.push(`${row.key} has ${Math.round(row.trials)} trials; at least ${MIN_TRIALS} are needed for a verdict.`);
+    } else if (row.successes < MIN_OUTCOMES || row.trials - row.successes < MIN_OUTCOMES) {
+      warnings.push(`${row.key} has too few successes or failures for the z-test to be reliable.`);
+    }
+  }
+
+  const compared = rows.map((row, index) => {
+    if (index === 0) {
+      return { ...row, diff: 0, z: 0, pValue: null, probabilityBetter: null, significant: false, requiredTrials: null };
+    }
+    const test = twoProportionZTest(leader.successes, leader.trials, row.successes, row.trials);
+    return {
+      ...row,
+      ...test,
+      probabilityBetter: probabilityBetter(row.successes, row.trials, leader.successes, leader.trials),
+      significant: test.pValue < adjustedAlpha,
+      requiredTrials: requiredSampleSize(leader.rate, row.rate),
+    };
+  });
+
+  const others = compared.slice(1);
+  for (const row of others) {
+    if (!row.significant && row.requiredTrials !== Infinity && Math.min(row.trials, leader.trials) < row.requiredTrials) {
+      warnings.push(`${leader.key} vs ${row.key}: about ${row.requiredTrials.toLocaleString('en-US')} trials per variant are needed to detect a gap this size.`);
+    }
+  }
+
+  const undersized = rows.some(row => row.trials < MIN_TRIALS);
+  const verdict = undersized ? 'insufficient' : others.every(row => row.significant) ? 'winner' : 'inconclusive';
+
+  return { verdict, leader: leader.key, alpha: adjustedAlpha, variants: compared, warnings };
+}
@@ -0,0 +1,33 @@
+export type ForecastMethod = 'linear' | 'holt' | 'holtWinters';
+
+export const FORECAST_METHODS: Record<ForecastMethod, { label: string; minPoints: number }>;
+
+export interface ForecastPoint {
+  value: number;
+  // Bounds of the prediction interval for this value
+  lower: number;
+  upper: number;
+}
+
+// Backtest error of the chosen method over the latest `points` weeks
+export interface ForecastAccuracy {
+  mae: number;
+  // null when every backtested week was 0
+  mape: number | null;
+  points: number;
+}
+
+export interface Forecast {
+  method: ForecastMethod;
+  label: string;
+  params: { alpha?: number; beta?: number; gamma?: number };
+  points: ForecastPoint[];
+  // null when there was too little history to backtest
+  accuracy: ForecastAccuracy | null;
+}
+
+export function forecastSeries(
+  series: number[],
+  periods: number,
+  options?: { confidence?: 0.8 | 0.9 | 0.95 | 0.99; min?: number; max?: number }
+): Forecast;
@@ -0,0 +1,196 @@
+// Forecasting for weekly metric series: a linear trend, Holt's linear exponential
+// smoothing and additive Holt-Winters with a four-week season. Each candidate is
+// backtested on the latest weeks and the most accurate one produces the forecast,
+// with prediction intervals for the forecast values themselves (not the mean).
+import { linearRegression } from './analytics.js';
+
+// Weekly data with a roughly monthly cycle
+const SEASON_LENGTH = 4;
+
+// Smoothing parameters tried for each model; the best in-sample fit wins
+const PARAMETER_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// Most recent weeks used to backtest the candidates
+const BACKTEST_WEEKS = 6;
+
+const Z_SCORES = { 0.8: 1.282, 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 };
+
+export const FORECAST_METHODS = {
+  linear: { label: 'Linear trend', minPoints: 3 },
+  holt: { label: "Holt's exponential smoothing", minPoints: 4 },
+  holtWinters: { label: `Holt-Winters (${SEASON_LENGTH}-week season)`, minPoints: SEASON_LENGTH * 2 + 1 },
+};
+
+const mean = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const meanSquare = (values) => (values.length > 0 ? mean(values.map(value => value * value)) : 0);
+
+// Each fit returns its one-step errors, point forecasts and the forecast variance h steps out
+function fitLinear(series) {
+  const n = series.length;
+  const { slope, intercept } = linearRegression(series);
+  const errors = series.map((value, i) => value - (intercept + slope * i));
+  const xMean = (n - 1) / 2;
+  const ssXX = series.reduce((sum, _, i) => sum + (i - xMean) ** 2, 0);
+  const sigma2 = n > 2 ? errors.reduce((sum, e) => sum + e * e, 0) / (n - 2) : 0;
+
+  return {
+    params: {},
+    errors,
+    forecast: (h) => intercept + slope * (n - 1 + h),
+    variance: (h) => sigma2 * (1 + 1 / n + (ssXX > 0 ? (n - 1 + h - xMean) ** 2 / ssXX : 0)),
+  };
+}
+
+function runHolt(series, alpha, beta) {
+  let level = series[0];
+  let trend = series[1] - series[0];
+  const errors = [];
+  for (let t = 1; t < series.length; t++) {
+    errors.push(series[t] - (level + trend));
+    const previousLevel = level;
+    level = alpha * series[t] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+  }
+  return { level, trend, errors };
+}
+
+function fitHolt(series) {
+  let best = null;
+  for (const alpha of PARAMETER_GRID) {
+    for (const beta of PARAMETER_GRID) {
+      const run = runHolt(series, alpha, beta);
+      const mse = meanSquare(run.errors);
+      if (!best || mse < best.mse) best = { ...run, alpha, beta, mse };
+    }
+  }
+
+  const { level, trend, errors, alpha, beta, mse } = best;
+  return {
+    params: { alpha, beta },
+    errors,
+    forecast: (h) => level + h * trend,
+    // Var = sigma^2 * (1 + sum over j < h of (alpha * (1 + beta * j))^2)
+    variance: (h) => {
+      let factor = 1;
+      for (let j = 1; j < h; j++) factor += (alpha * (1 + beta * j)) ** 2;
+      return mse * factor;
+    },
+  };
+}
+
+function runHoltWinters(series, alpha, beta, gamma) {
+  const m = SEASON_LENGTH;
+  const firstSeason = mean(series.slice(0, m));
+  let level = firstSeason;
+  let trend = (mean(series.slice(m, 2 * m)) - firstSeason) / m;
+  const seasonals = series.slice(0, m).map(value => value - firstSeason);
+  const errors = [];
+
+  for (let t = m; t < series.length; t++) {
+    const seasonal = seasonals[t - m];
+    errors.push(series[t] - (level + trend + seasonal));
+    const previousLevel = level;
+    level = alpha * (series[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals.push(gamma * (series[t] - level) + (1 - gamma) * seasonal);
+  }
+  return { level, trend, seasonals, errors };
+}
+
+function fitHoltWinters(series) {
+  let best = null;
+  for (const alpha of PARAMETER_GRID) {
+    for (const beta of PARAMETER_GRID) {
+      for (const gamma of PARAMETER_GRID) {
+        const run = runHoltWinters(series, alpha, beta, gamma);
+        const mse = meanSquare(run.errors);
+        if (!best || mse < best.mse) best = { ...run, alpha, beta, gamma, mse };
+      }
+    }
+  }
+
+  const { level, trend, seasonals, errors, alpha, beta, gamma, mse } = best;
+  const m = SEASON_LENGTH;
+  return {
+    params: { alpha, beta, gamma },
+    errors,
+    forecast: (h) => level + h * trend + seasonals[seasonals.length - m + ((h - 1) % m)],
+    // As for Holt, plus the seasonal update whenever j completes a season
+    variance: (h) => {
+      let factor = 1;
+      for (let j = 1; j < h; j++) factor += (alpha * (1 + beta * j) + (j % m === 0 ? gamma : 0)) ** 2;
+      return mse * factor;
+    },
+  };
+}
+
+const FITS = { linear: fitLinear, holt: fitHolt, holtWinters: fitHoltWinters };
+
+// One-step-ahead errors of `method` over the last `weeks` points, each forecast fitted
+// only on the weeks before it. MAPE leaves out weeks whose actual value is 0.
+function backtest(series, method, weeks) {
+  const errors = [];
+  const percentErrors = [];
+  for (let t = series.length - weeks; t < series.length; t++) {
+    const predicted = FITS[method](series.slice(0, t)).forecast(1);
+    const error = series[t] - predicted;
+    errors.push(Math.abs(error));
+    if (series[t] !== 0) percentErrors.push(Math.abs(error / series[t]) * 100);
+  }
+  return {
+    mae: mean(errors),
+    mape: percentErrors.length > 0 ? mean(percentErrors) : null,
+    points: weeks,
+  };
+}
+
+/**
+ * Forecast the next `periods` values of `series` (oldest first). Candidates with enough
+ * history are backtested and the one with the lowest MAE is used; with too little
+ * history for a backtest the linear trend is used and `accuracy` is null.
+ * Options: `confidence` of the prediction intervals (default 0.95) and `min`/`max`
+ * bounds for the values, e.g. 0 and 100 for rates.
+ */
+export function forecastSeries(series, periods, { confidence = 0.95, min = 0, max = Infinity } = {}) {
+  const clamp = (value) => Math.min(max, Math.max(min, value));
+  const z = Z_SCORES[confidence] ?? Z_SCORES[0.95];
+
+  if (series.length < 2) {
+    const value = clamp(series[0] ?? 0);
+    return {
+      method: 'linear',
+      label: FORECAST_METHODS.linear.label,
+      params: {},
+      points: Array.from({ length: periods }, () => ({ value, lower: value, upper: value })),
+      accuracy: null,
+    };
+  }
+
+  const weeks = Math.min(BACKTEST_WEEKS, series.length - FORECAST_METHODS.linear.minPoints);
+
+  let method = 'linear';
+  let accuracy = null;
+  if (weeks > 0) {
+    // A candidate needs its minimum history before the first backtested week
+    const scored = Object.keys(FORECAST_METHODS)
+      .filter(candidate => series.length - weeks >= FORECAST_METHODS[candidate].minPoints)
+      .map(candidate => ({ candidate, accuracy: backtest(series, candidate, weeks) }));
+    // Candidates are listed simplest first, so ties keep the simpler model
+    const best = scored.reduce((a, b) => (b.accuracy.mae < a.accuracy.mae ? b : a));
+    method = best.candidate;
+    accuracy = best.accuracy;
+  }
+
+  const model = FITS[method](series);
+  return {
+    method,
+    label: FORECAST_METHODS[method].label,
+    params: model.params,
+    points: Array.from({ length: periods }, (_, i) => {
+      const value = model.forecast(i + 1);
+      const margin = z * Math.sqrt(model.variance(i + 1));
+      return { value: clamp(value), lower: clamp(value - margin), upper: clamp(value + margin) };
+    }),
+    accuracy,
+  };
+}
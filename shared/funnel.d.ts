@@ -0,0 +1,58 @@
+import type { AnalyticsRow, MetricTotals } from './analytics';
+
+export type FunnelStageKey = 'invited' | 'accepted' | 'messaged' | 'replies' | 'leads';
+
+export const FUNNEL_STAGES: { key: FunnelStageKey; label: string }[];
+
+export interface FunnelStage {
+  key: FunnelStageKey;
+  label: string;
+  count: number;
+  // Percent of the stage before; null for the first stage or after an empty one
+  conversion: number | null;
+  // Percent of the first stage
+  overall: number;
+  dropOff: number;
+}
+
+export interface Funnel {
+  stages: FunnelStage[];
+  weakestStep: FunnelStageKey | null;
+}
+
+export interface GroupFunnelStage extends FunnelStage {
+  // Conversion minus the same step across all rows, in percentage points
+  gap: number | null;
+  flagged: boolean;
+}
+
+export interface GroupFunnel extends Funnel {
+  key: string;
+  stages: GroupFunnelStage[];
+}
+
+// Latest period minus the one before
+export interface FunnelChange {
+  key: FunnelStageKey;
+  label: string;
+  count: number;
+  // In percentage points
+  conversion: number | null;
+}
+
+export interface PeriodComparison {
+  current: Funnel & { key: string };
+  previous: Funnel & { key: string };
+  changes: FunnelChange[];
+}
+
+export function buildFunnel(totals: MetricTotals): Funnel;
+
+export function funnelOf(rows: AnalyticsRow[]): Funnel;
+
+export function funnelBy(
+  rows: AnalyticsRow[],
+  dimension: 'agent' | 'campaign' | 'audience' | 'week' | 'month'
+): GroupFunnel[];
+
+export function comparePeriods(rows: AnalyticsRow[], period: 'week' | 'month'): PeriodComparison | null;
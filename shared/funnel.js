@@ -0,0 +1,91 @@
+// Outreach funnel from invite to Defy Lead. Stages are weekly activity counts rather than
+// tracked people (a week's messages can go to connections accepted weeks before), so a
+// step can convert above 100%.
+import { sumMetrics, aggregateBy, safePercent } from './analytics.js';
+
+export const FUNNEL_STAGES = [
+  { key: 'invited', label: 'Invited' },
+  { key: 'accepted', label: 'Accepted' },
+  { key: 'messaged', label: 'Messaged' },
+  { key: 'replies', label: 'Replied' },
+  { key: 'leads', label: 'Defy Leads' },
+];
+
+// A step converting this many points below the same step across all rows is flagged
+const DROP_OFF_GAP = 5;
+
+// Stage counts of summed totals, each with its conversion from the stage before (null
+// for the first stage or after an empty one), from the first stage, and the count lost
+export function buildFunnel(totals) {
+  const first = totals[FUNNEL_STAGES[0].key];
+  const stages = FUNNEL_STAGES.map(({ key, label }, index) => {
+    const count = totals[key];
+    if (index === 0) return { key, label, count, conversion: null, overall: count > 0 ? 100 : 0, dropOff: 0 };
+    const previous = totals[FUNNEL_STAGES[index - 1].key];
+    return {
+      key,
+      label,
+      count,
+      conversion: previous > 0 ? safePercent(count, previous) : null,
+      overall: safePercent(count, first),
+      dropOff: Math.max(0, previous - count),
+    };
+  });
+
+  // The step losing the largest share of the stage before it
+  const weakest = stages.reduce((worst, stage, index) => {
+    if (stage.conversion === null) return worst;
+    return !worst || stage.conversion < worst.conversion ? stage : worst;
+  }, null);
+
+  return { stages, weakestStep: weakest?.key ?? null };
+}
+
+export function funnelOf(rows) {
+  return buildFunnel(sumMetrics(rows));
+}
+
+/**
+ * Funnel of each agent, campaign, audience or week cohort, ordered as aggregateBy orders
+ * them. Every step also carries `gap`, its conversion minus the same step across all the
+ * rows, and `flagged` when that gap is a drop-off worth looking at.
+ */
+export function funnelBy(rows, dimension) {
+  const baseline = funnelOf(rows).stages;
+  return aggregateBy(rows, dimension).map(group => {
+    const funnel = buildFunnel(group);
+    return {
+      key: group.key,
+      ...funnel,
+      stages: funnel.stages.map((stage, index) => {
+        const gap = stage.conversion === null || baseline[index].conversion === null
+          ? null
+          : stage.conversion - baseline[index].conversion;
+        return { ...stage, gap, flagged: gap !== null && gap <= -DROP_OFF_GAP };
+      }),
+    };
+  });
+}
+
+/**
+ * The latest week or month against the one before it, with the change of each step's
+ * conversion in percentage points. null until there are two periods.
+ */
+export function comparePeriods(rows, period) {
+  const periods = aggregateBy(rows, period);
+  if (periods.length < 2) return null;
+
+  const [previous, current] = periods.slice(-2).map(group => ({ key: group.key, ...buildFunnel(group) }));
+  return {
+    current,
+    previous,
+    changes: current.stages.map((stage, index) => ({
+      key: stage.key,
+      label: stage.label,
+      count: stage.count - previous.stages[index].count,
+      conversion: stage.conversion === null || previous.stages[index].conversion === null
+        ? null
+        : stage.conversion - previous.stages[index].conversion,
+    })),
+  };
+}
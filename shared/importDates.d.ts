@@ -0,0 +1,3 @@
+export const DATE_FORMATS: string[];
+
+export function parseImportDate(value: string): Date | null;
@@ -0,0 +1,22 @@
+// Date cells of outreach tool exports, shared by the import wizard and scripts/check-import-dates.js.
+import { isValid, parse } from 'date-fns';
+
+// Date layouts seen in exports, tried in order. M/d/yy goes before M/d/yyyy, which
+// would otherwise read 1/5/26 as the year 26; M/d/yy rejects four-digit years.
+export const DATE_FORMATS = ['yyyy-MM-dd', 'M/d/yy', 'M/d/yyyy', 'd MMM yyyy', 'MMM d, yyyy', 'MMMM d, yyyy'];
+
+/**
+ * Parse a date cell in any of the layouts exports use
+ */
+export function parseImportDate(value) {
+  const text = value.replace(/"/g, '').trim();
+  if (!text) return null;
+
+  for (const layout of DATE_FORMATS) {
+    const date = parse(text, layout, new Date());
+    if (isValid(date)) return date;
+  }
+  // Timestamps such as "2026-01-05T09:30:00Z"
+  const date = new Date(text);
+  return isValid(date) ? date : null;
+}
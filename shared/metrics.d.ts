@@ -0,0 +1,8 @@
+export type MetricsColumn =
+  | 'status' | 'campaign' | 'message' | 'audience' | 'agent'
+  | 'acceptanceRate' | 'replies' | 'replyPercent' | 'defyLead' | 'target'
+  | 'algoType' | 'weekEnd' | 'location' | 'queue' | 'totalInvited'
+  | 'totalAccepted' | 'netNewConnects' | 'startingConnects' | 'endingConnections'
+  | 'totalMessaged' | 'totalActions';
+
+export const METRICS_COLUMNS: MetricsColumn[];
@@ -0,0 +1,10 @@
+// Week metrics sheet layout shared by the server and the dashboard.
+
+// Column mapping for week metrics (sheet columns A:U, in order)
+export const METRICS_COLUMNS = [
+  'status', 'campaign', 'message', 'audience', 'agent',
+  'acceptanceRate', 'replies', 'replyPercent', 'defyLead', 'target',
+  'algoType', 'weekEnd', 'location', 'queue', 'totalInvited',
+  'totalAccepted', 'netNewConnects', 'startingConnects', 'endingConnections',
+  'totalMessaged', 'totalActions'
+];
@@ -0,0 +1,16 @@
+import type { MetricsColumn } from './metrics';
+
+export const REQUIRED_METRIC_FIELDS: MetricsColumn[];
+
+export type MetricFieldErrors = Partial<Record<MetricsColumn, string>>;
+
+export function parseMetricNumber(value: unknown): number;
+
+export function parseWeekEnd(value: unknown): Date | null;
+
+export function validateMetricFields(
+  values: { [K in MetricsColumn]?: unknown },
+  fields?: string[]
+): MetricFieldErrors;
+
+export function validateNewMetric(values: { [K in MetricsColumn]?: unknown }): MetricFieldErrors;
@@ -0,0 +1,123 @@
+// Validation rules for week metrics values, shared by the server (enforcement) and the
+// dashboard (inline errors). Blank values always pass - many sheet cells are empty.
+import { METRICS_COLUMNS } from './metrics.js';
+
+// A new row has to be placeable: every analytics view groups rows by agent and week
+export const REQUIRED_METRIC_FIELDS = ['agent', 'weekEnd'];
+
+// Counts that can never go below zero
+const COUNT_FIELDS = [
+  'replies', 'queue', 'totalInvited', 'totalAccepted', 'startingConnects',
+  'endingConnections', 'totalMessaged', 'totalActions'
+];
+
+// Lost connections can make the weekly net change negative
+const SIGNED_FIELDS = ['netNewConnects'];
+
+const PERCENT_FIELDS = ['acceptanceRate', 'replyPercent'];
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const isBlank = (value) => String(value ?? '').trim() === '';
+
+// Cells hold text or numbers; anything else (objects, arrays, booleans) is never stored
+const isCellValue = (value) =>
+  value === null || value === undefined || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+
+// Number in a cell, ignoring thousands separators and a trailing %; NaN when it is not one
+export function parseMetricNumber(value) {
+  const cleaned = String(value ?? '').replace(/,/g, '').replace(/%$/, '').trim();
+  return NUMBER_PATTERN.test(cleaned) ? Number(cleaned) : NaN;
+}
+
+// Week end date as the sheet writes it (M/D/YYYY) or as YYYY-MM-DD; null when it is not a real date
+export function parseWeekEnd(value) {
+  const text = String(value ?? '').trim();
+  const us = US_DATE_PATTERN.exec(text);
+  const iso = ISO_DATE_PATTERN.exec(text);
+  if (!us && !iso) return null;
+
+  const [year, month, day] = us
+    ? [Number(us[3]), Number(us[1]), Number(us[2])]
+    : [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  const date = new Date(year, month - 1, day);
+  // Date rolls 2/30 over into March - reject instead
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function checkCount(value) {
+  const num = parseMetricNumber(value);
+  if (Number.isNaN(num)) return 'Must be a number';
+  return num < 0 ? 'Cannot be negative' : null;
+}
+
+function checkSigned(value) {
+  return Number.isNaN(parseMetricNumber(value)) ? 'Must be a number' : null;
+}
+
+function checkPercent(value) {
+  const num = parseMetricNumber(value);
+  if (Number.isNaN(num)) return 'Must be a percentage';
+  return num < 0 || num > 100 ? 'Must be between 0% and 100%' : null;
+}
+
+function checkWeekEnd(value) {
+  return parseWeekEnd(value) ? null : 'Must be a date like 1/31/2026';
+}
+
+const FIELD_RULES = {
+  ...Object.fromEntries(COUNT_FIELDS.map(field => [field, checkCount])),
+  ...Object.fromEntries(SIGNED_FIELDS.map(field => [field, checkSigned])),
+  ...Object.fromEntries(PERCENT_FIELDS.map(field => [field, checkPercent])),
+  weekEnd: checkWeekEnd,
+};
+
+// Rules spanning several fields, with the error to show on each of them
+const ROW_RULES = [
+  {
+    messages: {
+      totalAccepted: 'Cannot be more than Total Invited',
+      totalInvited: 'Cannot be less than Total Accepted',
+    },
+    passes: values => parseMetricNumber(values.totalAccepted) <= parseMetricNumber(values.totalInvited),
+  },
+];
+
+// Errors for `fields` of the row `values`, keyed by field - empty when they are all valid.
+// Row rules run when any of their fields is checked, against the rest of `values`.
+export function validateMetricFields(values, fields = Object.keys(values)) {
+  const errors = {};
+
+  for (const field of fields) {
+    if (METRICS_COLUMNS.includes(field) && !isCellValue(values[field])) {
+      errors[field] = 'Must be text or a number';
+      continue;
+    }
+    const rule = FIELD_RULES[field];
+    const error = rule && !isBlank(values[field]) ? rule(values[field]) : null;
+    if (error) errors[field] = error;
+  }
+
+  for (const rule of ROW_RULES) {
+    const ruleFields = Object.keys(rule.messages);
+    // Blank or malformed inputs are left to the field rules
+    if (ruleFields.some(field => !isCellValue(values[field]) || Number.isNaN(parseMetricNumber(values[field])))) continue;
+    if (rule.passes(values)) continue;
+    for (const field of ruleFields.filter(field => fields.includes(field))) {
+      errors[field] = rule.messages[field];
+    }
+  }
+
+  return errors;
+}
+
+// Errors for a row about to be added: every field it has, plus the required ones when blank
+export function validateNewMetric(values) {
+  const errors = validateMetricFields(values);
+  for (const field of REQUIRED_METRIC_FIELDS) {
+    if (!errors[field] && isBlank(values[field])) errors[field] = 'Required';
+  }
+  return errors;
+}
@@ -0,0 +1,35 @@
+import type { MetricsColumn } from './metrics';
+
+export type Role = 'admin' | 'manager' | 'viewer';
+
+export type PermissionAction = 'addRows' | 'exportData' | 'useAI' | 'manageUsers' | 'viewAuditLog' | 'revertChanges' | 'bulkEdit' | 'archiveRows' | 'recomputeFields';
+
+export interface RolePermissions {
+  editFields: MetricsColumn[];
+  addFields: MetricsColumn[];
+  addRows: boolean;
+  exportData: boolean;
+  useAI: boolean;
+  manageUsers: boolean;
+  viewAuditLog: boolean;
+  revertChanges: boolean;
+  bulkEdit: boolean;
+  archiveRows: boolean;
+  recomputeFields: boolean;
+}
+
+export const PERMISSIONS: Record<Role, RolePermissions>;
+
+export function getPermissions(role: string | undefined): RolePermissions;
+
+export function can(role: string | undefined, action: PermissionAction): boolean;
+
+export function canEditField(role: string | undefined, field: string): boolean;
+
+export function forbiddenFields(role: string | undefined, fields: string[]): string[];
+
+export function canAddField(role: string | undefined, field: string): boolean;
+
+export function forbiddenAddFields(role: string | undefined, fields: string[]): string[];
+
+export function rolesWith(action: PermissionAction): Role[];
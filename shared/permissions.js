@@ -0,0 +1,83 @@
+// Role permission matrix shared by the server (enforcement) and the dashboard (UI gating).
+import { METRICS_COLUMNS } from './metrics.js';
+
+// Campaign setup fields managers may adjust on existing rows; raw outreach counts stay admin-only
+const MANAGER_EDITABLE_FIELDS = [
+  'status', 'campaign', 'message', 'audience', 'defyLead',
+  'target', 'algoType', 'location', 'queue'
+];
+
+export const PERMISSIONS = {
+  admin: {
+    editFields: METRICS_COLUMNS,
+    addFields: METRICS_COLUMNS,
+    addRows: true,
+    exportData: true,
+    useAI: true,
+    manageUsers: true,
+    viewAuditLog: true,
+    revertChanges: true,
+    bulkEdit: true,
+    archiveRows: true,
+    recomputeFields: true,
+  },
+  manager: {
+    editFields: MANAGER_EDITABLE_FIELDS,
+    // A new week needs its agent, week end and counts; counts stay locked on existing rows
+    addFields: METRICS_COLUMNS,
+    addRows: true,
+    exportData: true,
+    useAI: true,
+    manageUsers: false,
+    viewAuditLog: false,
+    revertChanges: false,
+    bulkEdit: false,
+    archiveRows: true,
+    recomputeFields: false,
+  },
+  viewer: {
+    editFields: ['defyLead'],
+    addFields: [],
+    addRows: false,
+    exportData: true,
+    useAI: true,
+    manageUsers: false,
+    viewAuditLog: false,
+    revertChanges: false,
+    bulkEdit: false,
+    archiveRows: false,
+    recomputeFields: false,
+  },
+};
+
+// Unknown roles get viewer permissions
+export function getPermissions(role) {
+  return PERMISSIONS[role] || PERMISSIONS.viewer;
+}
+
+export function can(role, action) {
+  return getPermissions(role)[action] === true;
+}
+
+export function canEditField(role, field) {
+  return getPermissions(role).editFields.includes(field);
+}
+
+// Fields in `fields` the role may not edit
+export function forbiddenFields(role, fields) {
+  return fields.filter(field => !canEditField(role, field));
+}
+
+export function canAddField(role, field) {
+  return getPermissions(role).addFields.includes(field);
+}
+
+// Fields in `fields` the role may not fill in on a new row
+export function forbiddenAddFields(role, fields) {
+  return fields.filter(field => !canAddField(role, field));
+}
+
+// Roles granted `action` - for role-restricted routes
+export function rolesWith(action) {
+  return Object.keys(PERMISSIONS).filter(role => can(role, action));
+}
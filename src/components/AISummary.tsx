@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Sparkles, Loader2, RefreshCw, Copy, Check, Bot } from 'lucide-react';
+import { usePermissions } from '../hooks/usePermissions';
 
 interface AISummaryProps {
   content: string;
@@ -35,8 +36,11 @@ const AISummary: React.FC<AISummaryProps> = ({ content, type, title, metadata, s
   const [usedModel, setUsedModel] = useState<string | null>(null);
   const [currentModel, setCurrentModel] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const permissions = usePermissions();
 
   const generateSummary = async (forceRefresh = false) => {
+    if (!permissions.useAI) return;
+
     if (!content || content.trim().length < 10) {
       setSummary('Not enough content to generate a summary.');
       return;
@@ -256,6 +260,8 @@ TIP: [1 specific action to improve]`;
     }
   };
 
+  if (!permissions.useAI) return null;
+
   return (
     <div className="bg-gradient-to-r from-purple-50 to-indigo-50 rounded-xl p-4 border border-purple-100">
       <div className="flex items-center justify-between mb-3">
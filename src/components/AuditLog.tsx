@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  ScrollText,
+  Download,
+  Loader2,
+  AlertCircle,
+  ArrowRight
+} from 'lucide-react';
+import axios from 'axios';
+import { METRICS_COLUMNS } from '../../shared/metrics.js';
+import { exportToCSV } from '../utils/metricsUtils';
+import type { AuditEntry } from '../types/audit';
+
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+// Wait for typing to pause before querying the server
+const FILTER_DEBOUNCE = 300;
+
+interface AuditFilters {
+  user: string;
+  field: string;
+  action: '' | AuditEntry['action'];
+  recordId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { user: '', field: '', action: '', recordId: '', from: '', to: '' };
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]';
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async (current: AuditFilters) => {
+    try {
+      setLoading(true);
+      setError(null);
+      // Only send the filters that are set
+      const params = Object.fromEntries(Object.entries(current).filter(([, value]) => value));
+      const response = await axios.get(`${API_URL}/audit`, { params });
+      setEntries(response.data);
+    } catch (err: unknown) {
+      setError(axios.isAxiosError(err) ? err.response?.data?.error || 'Failed to load audit log' : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => fetchEntries(filters), FILTER_DEBOUNCE);
+    return () => clearTimeout(timeoutId);
+  }, [filters, fetchEntries]);
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = () => {
+    exportToCSV(entries.map(entry => ({
+      Timestamp: entry.timestamp,
+      User: entry.userEmail,
+      Name: entry.userName,
+      Action: entry.action,
+      'Row ID': entry.recordId,
+      Field: entry.field,
+      'Old Value': entry.oldValue,
+      'New Value': entry.newValue,
+    })), 'metrics_audit_log');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-[#1b1e4c] flex items-center gap-2">
+          <ScrollText size={20} />
+          Audit Log
+        </h3>
+        <button
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-[#13BCC5] text-white rounded-xl hover:bg-[#0FA8B0] transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={16} />
+          Export CSV
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-slate-50 rounded-xl p-4 grid md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">User</label>
+          <input
+            type="text"
+            value={filters.user}
+            onChange={(e) => updateFilter('user', e.target.value)}
+            placeholder="Name or email"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Field</label>
+          <select
+            value={filters.field}
+            onChange={(e) => updateFilter('field', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All fields</option>
+            {[...METRICS_COLUMNS, 'archivedAt'].map(column => (
+              <option key={column} value={column}>{column}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Action</label>
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value as AuditFilters['action'])}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            <option value="add">Added</option>
+            <option value="update">Updated</option>
+            <option value="revert">Reverted</option>
+            <option value="archive">Archived</option>
+            <option value="restore">Restored</option>
+            <option value="recompute">Recomputed</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Row ID</label>
+          <input
+            type="text"
+            value={filters.recordId}
+            onChange={(e) => updateFilter('recordId', e.target.value.trim())}
+            placeholder="metric-..."
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+          <AlertCircle size={16} className="flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Entries Table */}
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-[#13BCC5] animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-8">No changes match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                <th className="py-2 pr-4 font-medium">When</th>
+                <th className="py-2 pr-4 font-medium">User</th>
+                <th className="py-2 pr-4 font-medium">Row</th>
+                <th className="py-2 pr-4 font-medium">Field</th>
+                <th className="py-2 font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map((entry, index) => (
+                <tr key={`${entry.timestamp}-${entry.recordId}-${entry.field}-${index}`}>
+                  <td className="py-3 pr-4 text-xs text-slate-500 whitespace-nowrap">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <p className="font-medium text-[#1b1e4c]">{entry.userName || entry.userEmail}</p>
+                    {entry.userName && <p className="text-xs text-slate-500">{entry.userEmail}</p>}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <button
+                      onClick={() => updateFilter('recordId', entry.recordId)}
+                      className="font-mono text-xs text-[#13BCC5] hover:underline"
+                      title="Show only this row"
+                    >
+                      {entry.recordId}
+                    </button>
+                  </td>
+                  <td className="py-3 pr-4 text-slate-600">{entry.field}</td>
+                  <td className="py-3">
+                    <div className="flex items-center gap-1.5 text-xs flex-wrap">
+                      {entry.action === 'add' ? (
+                        <span className="px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700 font-medium">Added</span>
+                      ) : (
+                        <>
+                          <span className="line-through text-slate-400">{entry.oldValue || '—'}</span>
+                          <ArrowRight size={12} className="text-slate-400" />
+                        </>
+                      )}
+                      <span className="text-[#1b1e4c]">{entry.newValue || '—'}</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -13,6 +13,7 @@ import SuccessStoriesAnalytics from './SuccessStoriesAnalytics';
 import ScheduleAnalytics from './ScheduleAnalytics';
 import { exportAllToExcel, exportArticlesToExcel, exportStoriesToExcel } from '../utils/exportUtils';
 import { useSearch } from '../context/SearchContext';
+import { usePermissions } from '../hooks/usePermissions';
 
 interface ContentDashboardProps {
   data: ContentData;
@@ -30,8 +31,9 @@ const ContentDashboard: React.FC<ContentDashboardProps> = ({ data, onRefresh, lo
   const [storiesView, setStoriesView] = useState<ViewMode>('analytics');
   const [scheduleView, setScheduleView] = useState<ViewMode>('analytics');
   const { searchQuery, clearSearch } = useSearch();
+  const permissions = usePermissions();
 
-  const tabs = [
+  const allTabs = [
     { id: 'overview' as TabType, label: 'Overview', icon: <Calendar size={18} /> },
     { id: 'articles' as TabType, label: 'News Articles', icon: <FileText size={18} /> },
     { id: 'stories' as TabType, label: 'Success Stories', icon: <Users size={18} /> },
@@ -40,6 +42,7 @@ const ContentDashboard: React.FC<ContentDashboardProps> = ({ data, onRefresh, lo
     { id: 'metrics' as TabType, label: 'Week Metrics', icon: <TrendingUp size={18} /> },
     { id: 'ai' as TabType, label: 'AI Assistant', icon: <Bot size={18} />, highlight: true },
   ];
+  const tabs = allTabs.filter(tab => tab.id !== 'ai' || permissions.useAI);
 
   // Filter data based on search query
   const filteredArticles = useMemo(() => {
@@ -140,35 +143,37 @@ const ContentDashboard: React.FC<ContentDashboardProps> = ({ data, onRefresh, lo
         </div>
         <div className="flex items-center gap-2 md:gap-3 flex-wrap">
           {/* Export Dropdown */}
-          <div className="relative group">
-            <button
-              disabled={exporting}
-              className="flex items-center gap-1.5 md:gap-2 px-3 md:px-4 py-2 bg-[#1b1e4c] text-white rounded-xl hover:bg-[#2a2e5c] transition-colors disabled:opacity-50 text-sm"
-            >
-              <Download size={14} className={exporting ? 'animate-bounce' : ''} />
-              <span className="hidden sm:inline">Export</span>
-            </button>
-            <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-xl shadow-lg border border-slate-100 py-2 z-50 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all">
-              <button
-                onClick={handleExportAll}
-                className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2"
-              >
-                <Download size={14} /> Export All Data
-              </button>
+          {permissions.exportData && (
+            <div className="relative group">
               <button
-                onClick={handleExportArticles}
-                className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2"
+                disabled={exporting}
+                className="flex items-center gap-1.5 md:gap-2 px-3 md:px-4 py-2 bg-[#1b1e4c] text-white rounded-xl hover:bg-[#2a2e5c] transition-colors disabled:opacity-50 text-sm"
               >
-                <FileText size={14} /> Export Articles
-              </button>
-              <button
-                onClick={handleExportStories}
-                className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2"
-              >
-                <Users size={14} /> Export Stories
+                <Download size={14} className={exporting ? 'animate-bounce' : ''} />
+                <span className="hidden sm:inline">Export</span>
               </button>
+              <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-xl shadow-lg border border-slate-100 py-2 z-50 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all">
+                <button
+                  onClick={handleExportAll}
+                  className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2"
+                >
+                  <Download size={14} /> Export All Data
+                </button>
+                <button
+                  onClick={handleExportArticles}
+                  className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2"
+                >
+                  <FileText size={14} /> Export Articles
+                </button>
+                <button
+                  onClick={handleExportStories}
+                  className="w-full px-4 py-2 text-left text-sm text-slate-600 hover:bg-slate-50 flex items-center gap-2"
+                >
+                  <Users size={14} /> Export Stories
+                </button>
+              </div>
             </div>
-          </div>
+          )}
 
           <button
             onClick={onRefresh}
@@ -528,7 +533,7 @@ const ContentDashboard: React.FC<ContentDashboardProps> = ({ data, onRefresh, lo
         <WeekMetricsForm onRefresh={onRefresh} />
       )}
 
-      {activeTab === 'ai' && (
+      {activeTab === 'ai' && permissions.useAI && (
         <div className="space-y-6">
           {/* AI Header */}
           <div className="bg-gradient-to-r from-[#1b1e4c] via-[#2a2e5c] to-[#1b1e4c] rounded-2xl p-6 text-white relative overflow-hidden">
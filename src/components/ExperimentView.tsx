@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { FlaskConical, Trophy, AlertTriangle, HelpCircle, CheckCircle2 } from 'lucide-react';
+import { aggregateBy } from '../../shared/analytics.js';
+import { compareVariants, MIN_TRIALS } from '../../shared/experiments.js';
+import type { AnalyticsDimension, AnalyticsRow, MetricGroup } from '../../shared/analytics.js';
+import type { Experiment, ExperimentVerdict } from '../../shared/experiments.js';
+import { formatNumber } from '../utils/metricsUtils';
+
+// Columns a variant can be taken from
+const VARIANT_DIMENSIONS: { key: AnalyticsDimension & keyof AnalyticsRow; label: string }[] = [
+  { key: 'message', label: 'Message' },
+  { key: 'audience', label: 'Audience' },
+  { key: 'campaign', label: 'Campaign' },
+  { key: 'algoType', label: 'Algorithm' },
+  { key: 'location', label: 'Location' },
+];
+
+type VariantDimension = typeof VARIANT_DIMENSIONS[number]['key'];
+
+// Rates compared for each experiment: successes out of trials
+const OUTCOMES: { label: string; trialsLabel: string; successes: keyof MetricGroup; trials: keyof MetricGroup }[] = [
+  { label: 'Acceptance Rate', trialsLabel: 'Invited', successes: 'accepted', trials: 'invited' },
+  { label: 'Reply Rate', trialsLabel: 'Messaged', successes: 'replies', trials: 'messaged' },
+];
+
+const VERDICT_STYLES: Record<ExperimentVerdict, { label: string; className: string; icon: React.ElementType }> = {
+  winner: { label: 'Winner', className: 'bg-emerald-100 text-emerald-700', icon: Trophy },
+  inconclusive: { label: 'Inconclusive', className: 'bg-amber-100 text-amber-700', icon: HelpCircle },
+  insufficient: { label: 'Not enough data', className: 'bg-slate-100 text-slate-600', icon: AlertTriangle },
+};
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
+interface ExperimentViewProps {
+  metrics: AnalyticsRow[];
+}
+
+const ExperimentView: React.FC<ExperimentViewProps> = ({ metrics }) => {
+  const [dimension, setDimension] = useState<VariantDimension>('message');
+  const [holdDimension, setHoldDimension] = useState<VariantDimension | ''>('audience');
+  const [holdValue, setHoldValue] = useState('');
+  // null until the user picks variants; the two largest are compared by default
+  const [selected, setSelected] = useState<string[] | null>(null);
+
+  const holdOptions = useMemo(
+    () => (holdDimension ? aggregateBy(metrics, holdDimension).map(group => group.key) : []),
+    [metrics, holdDimension]
+  );
+
+  const groups = useMemo(() => {
+    const scoped = holdDimension && holdValue
+      ? metrics.filter(row => (row[holdDimension] || '').trim() === holdValue)
+      : metrics;
+    return aggregateBy(scoped, dimension);
+  }, [metrics, dimension, holdDimension, holdValue]);
+
+  const chosen = useMemo(() => {
+    const keys = selected ?? groups.slice(0, 2).map(group => group.key);
+    return groups.filter(group => keys.includes(group.key));
+  }, [groups, selected]);
+
+  const experiments = useMemo(
+    () => OUTCOMES.map(outcome => ({
+      outcome,
+      experiment: compareVariants(chosen.map(group => ({
+        key: group.key,
+        successes: group[outcome.successes] as number,
+        trials: group[outcome.trials] as number,
+      }))),
+    })),
+    [chosen]
+  );
+
+  const changeDimension = (next: VariantDimension) => {
+    setDimension(next);
+    if (holdDimension === next) setHoldDimension('');
+    setHoldValue('');
+    setSelected(null);
+  };
+
+  const toggleVariant = (key: string) => {
+    const current = chosen.map(group => group.key);
+    setSelected(current.includes(key) ? current.filter(k => k !== key) : [...current, key]);
+  };
+
+  const dimensionLabel = VARIANT_DIMENSIONS.find(option => option.key === dimension)?.label ?? dimension;
+
+  const renderExperiment = (
+    { label, trialsLabel }: typeof OUTCOMES[number],
+    experiment: Experiment
+  ) => {
+    const verdict = VERDICT_STYLES[experiment.verdict];
+    const VerdictIcon = verdict.icon;
+    return (
+      <div key={label} className="bg-white rounded-xl border border-slate-100 p-6">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-bold text-[#1b1e4c]">{label}</h3>
+          <span className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold ${verdict.className}`}>
+            <VerdictIcon size={14} />
+            {experiment.verdict === 'winner' ? `${experiment.leader} wins` : verdict.label}
+          </span>
+        </div>
+
+        {experiment.variants.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                  <th className="py-2 pr-4 font-medium">{dimensionLabel}</th>
+                  <th className="py-2 pr-4 font-medium">{trialsLabel}</th>
+                  <th className="py-2 pr-4 font-medium">Rate</th>
+                  <th className="py-2 pr-4 font-medium">vs Leader</th>
+                  <th className="py-2 pr-4 font-medium">p-value</th>
+                  <th className="py-2 font-medium">P(leader better)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {experiment.variants.map((variant, index) => (
+                  <tr key={variant.key}>
+                    <td className="py-3 pr-4 font-medium text-[#1b1e4c]">
+                      <span className="flex items-center gap-2">
+                        {index === 0 && <Trophy size={14} className="text-amber-500 flex-shrink-0" />}
+                        {variant.key}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4 text-slate-600">{formatNumber(variant.trials)}</td>
+                    <td className="py-3 pr-4 text-slate-600">{variant.rate.toFixed(1)}%</td>
+                    {variant.pValue === null ? (
+                      <td colSpan={3} className="py-3 text-xs text-slate-400">Leader</td>
+                    ) : (
+                      <>
+                        <td className="py-3 pr-4 text-slate-600">{variant.diff.toFixed(1)} pts</td>
+                        <td className={`py-3 pr-4 ${variant.significant ? 'text-emerald-600 font-medium' : 'text-slate-600'}`}>
+                          <span className="flex items-center gap-1">
+                            {formatPValue(variant.pValue)}
+                            {variant.significant && <CheckCircle2 size={14} />}
+                          </span>
+                        </td>
+                        <td className="py-3 text-slate-600">{((variant.probabilityBetter ?? 0) * 100).toFixed(1)}%</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {experiment.warnings.length > 0 && (
+          <ul className="mt-4 space-y-1">
+            {experiment.warnings.map(warning => (
+              <li key={warning} className="flex items-start gap-2 text-xs text-amber-700">
+                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const selectClass = 'w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-teal-50 to-cyan-50 rounded-2xl p-6 border border-teal-200">
+        <div className="flex items-center gap-3 mb-2">
+          <FlaskConical size={24} className="text-[#13BCC5]" />
+          <h2 className="text-xl font-bold text-[#1b1e4c]">A/B Tests</h2>
+        </div>
+        <p className="text-slate-600">
+          Compare two or more variants on acceptance and reply rate. The best variant is tested against
+          each of the others with a two-proportion z-test (5% significance, split across comparisons) and
+          a Bayesian beta-binomial probability. Each variant needs at least {MIN_TRIALS} invites or
+          messages before a verdict is given.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-100 p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-2">Compare</label>
+            <select value={dimension} onChange={e => changeDimension(e.target.value as VariantDimension)} className={selectClass}>
+              {VARIANT_DIMENSIONS.map(option => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-2">Keep the same</label>
+            <select
+              value={holdDimension}
+              onChange={e => {
+                setHoldDimension(e.target.value as VariantDimension | '');
+                setHoldValue('');
+                setSelected(null);
+              }}
+              className={selectClass}
+            >
+              <option value="">Nothing</option>
+              {VARIANT_DIMENSIONS.filter(option => option.key !== dimension).map(option => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-2">Value</label>
+            <select
+              value={holdValue}
+              onChange={e => {
+                setHoldValue(e.target.value);
+                setSelected(null);
+              }}
+              disabled={!holdDimension}
+              className={`${selectClass} disabled:bg-slate-50 disabled:text-slate-400`}
+            >
+              <option value="">All</option>
+              {holdOptions.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <label className="block text-xs font-medium text-slate-600 mb-2">Variants</label>
+        {groups.length === 0 ? (
+          <p className="text-sm text-slate-400">No rows have a {dimensionLabel.toLowerCase()} for this selection.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {groups.map(group => {
+              const active = chosen.some(choice => choice.key === group.key);
+              return (
+                <button
+                  key={group.key}
+                  onClick={() => toggleVariant(group.key)}
+                  className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                    active
+                      ? 'border-[#13BCC5] bg-[#13BCC5]/10 text-[#1b1e4c]'
+                      : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+                  }`}
+                >
+                  {group.key}
+                  <span className="ml-2 text-xs text-slate-400">{formatNumber(group.invited)} invited</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {experiments.map(({ outcome, experiment }) => renderExperiment(outcome, experiment))}
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentView;
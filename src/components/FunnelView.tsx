@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { Funnel, ArrowUpRight, ArrowDownRight, AlertTriangle } from 'lucide-react';
+import { funnelOf, funnelBy, comparePeriods } from '../../shared/funnel.js';
+import type { AnalyticsRow } from '../../shared/analytics.js';
+import { formatNumber } from '../utils/metricsUtils';
+
+type BreakdownDimension = 'agent' | 'campaign' | 'audience' | 'week';
+
+const BREAKDOWNS: { key: BreakdownDimension; label: string }[] = [
+  { key: 'agent', label: 'Agent' },
+  { key: 'campaign', label: 'Campaign' },
+  { key: 'audience', label: 'Audience' },
+  { key: 'week', label: 'Week Cohort' },
+];
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate.toFixed(1)}%`);
+
+const formatChange = (change: number, unit = '') =>
+  `${change > 0 ? '+' : ''}${unit ? change.toFixed(1) : formatNumber(change)}${unit}`;
+
+interface FunnelViewProps {
+  metrics: AnalyticsRow[];
+}
+
+const FunnelView: React.FC<FunnelViewProps> = ({ metrics }) => {
+  const [breakdown, setBreakdown] = useState<BreakdownDimension>('agent');
+  const [period, setPeriod] = useState<'week' | 'month'>('week');
+
+  const overall = useMemo(() => funnelOf(metrics), [metrics]);
+  const groups = useMemo(() => funnelBy(metrics, breakdown), [metrics, breakdown]);
+  const comparison = useMemo(() => comparePeriods(metrics, period), [metrics, period]);
+
+  const steps = overall.stages.slice(1);
+  const first = overall.stages[0].count;
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
+      active ? 'bg-white text-[#13BCC5] shadow-sm' : 'text-slate-600 hover:text-slate-800'
+    }`;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-teal-50 to-cyan-50 rounded-2xl p-6 border border-teal-200">
+        <div className="flex items-center gap-3 mb-2">
+          <Funnel size={24} className="text-[#13BCC5]" />
+          <h2 className="text-xl font-bold text-[#1b1e4c]">Outreach Funnel</h2>
+        </div>
+        <p className="text-slate-600">
+          From invite to Defy Lead. Stages are weekly activity, not individual prospects, so a step
+          can pass 100% when a week works through connections made earlier.
+        </p>
+      </div>
+
+      {/* Overall Funnel */}
+      <div className="bg-white rounded-xl border border-slate-100 p-6">
+        <h3 className="text-lg font-bold text-[#1b1e4c] mb-4">Overall Funnel</h3>
+        <div className="space-y-3">
+          {overall.stages.map(stage => {
+            const weakest = stage.key === overall.weakestStep;
+            return (
+              <div key={stage.key}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-[#1b1e4c]">{stage.label}</span>
+                  <span className="text-slate-600">
+                    {formatNumber(stage.count)}
+                    {stage.conversion !== null && (
+                      <span className={`ml-2 text-xs ${weakest ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>
+                        {formatRate(stage.conversion)} of previous · {formatNumber(stage.dropOff)} lost
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${weakest ? 'bg-red-400' : 'bg-[#13BCC5]'}`}
+                    style={{ width: `${first > 0 ? Math.max(1, Math.min(100, (stage.count / first) * 100)) : 0}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {overall.weakestStep && (
+          <p className="flex items-center gap-2 text-xs text-red-600 mt-4">
+            <AlertTriangle size={14} />
+            Biggest drop-off: {overall.stages.find(stage => stage.key === overall.weakestStep)?.label} converts the
+            lowest share of the stage before it.
+          </p>
+        )}
+      </div>
+
+      {/* Period over Period */}
+      <div className="bg-white rounded-xl border border-slate-100 p-6">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-bold text-[#1b1e4c]">Period over Period</h3>
+          <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+            <button onClick={() => setPeriod('week')} className={toggleClass(period === 'week')}>Week</button>
+            <button onClick={() => setPeriod('month')} className={toggleClass(period === 'month')}>Month</button>
+          </div>
+        </div>
+        {comparison ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                  <th className="py-2 pr-4 font-medium">Stage</th>
+                  <th className="py-2 pr-4 font-medium">{comparison.previous.key}</th>
+                  <th className="py-2 pr-4 font-medium">{comparison.current.key}</th>
+                  <th className="py-2 pr-4 font-medium">Change</th>
+                  <th className="py-2 font-medium">Conversion Change</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {comparison.changes.map((change, index) => {
+                  const previous = comparison.previous.stages[index];
+                  const current = comparison.current.stages[index];
+                  return (
+                    <tr key={change.key}>
+                      <td className="py-3 pr-4 font-medium text-[#1b1e4c]">{change.label}</td>
+                      <td className="py-3 pr-4 text-slate-600">
+                        {formatNumber(previous.count)}
+                        {previous.conversion !== null && <span className="ml-1 text-xs text-slate-400">({formatRate(previous.conversion)})</span>}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-600">
+                        {formatNumber(current.count)}
+                        {current.conversion !== null && <span className="ml-1 text-xs text-slate-400">({formatRate(current.conversion)})</span>}
+                      </td>
+                      <td className={`py-3 pr-4 ${change.count >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {formatChange(change.count)}
+                      </td>
+                      <td className="py-3">
+                        {change.conversion === null ? (
+                          <span className="text-slate-400">—</span>
+                        ) : (
+                          <span className={`flex items-center gap-1 ${change.conversion >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                            {change.conversion >= 0 ? <ArrowUpRight size={14} /> : <ArrowDownRight size={14} />}
+                            {formatChange(change.conversion, ' pts')}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400">At least two {period}s of data are needed for a comparison.</p>
+        )}
+      </div>
+
+      {/* Breakdown */}
+      <div className="bg-white rounded-xl border border-slate-100 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-bold text-[#1b1e4c]">Conversion by Step</h3>
+          <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+            {BREAKDOWNS.map(option => (
+              <button key={option.key} onClick={() => setBreakdown(option.key)} className={toggleClass(breakdown === option.key)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                <th className="py-2 pr-4 font-medium">{BREAKDOWNS.find(option => option.key === breakdown)?.label}</th>
+                <th className="py-2 pr-4 font-medium">Invited</th>
+                {steps.map(step => (
+                  <th key={step.key} className="py-2 pr-4 font-medium">→ {step.label}</th>
+                ))}
+                <th className="py-2 font-medium">Invite → Lead</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {groups.map(group => (
+                <tr key={group.key}>
+                  <td className="py-3 pr-4 font-medium text-[#1b1e4c]">{group.key}</td>
+                  <td className="py-3 pr-4 text-slate-600">{formatNumber(group.stages[0].count)}</td>
+                  {group.stages.slice(1).map(stage => (
+                    <td key={stage.key} className="py-3 pr-4">
+                      <span
+                        title={stage.gap !== null ? `${formatChange(stage.gap, ' pts')} vs all rows` : undefined}
+                        className={`px-2 py-0.5 rounded ${
+                          stage.flagged ? 'bg-red-50 text-red-600' : 'text-slate-600'
+                        } ${stage.key === group.weakestStep ? 'font-semibold' : ''}`}
+                      >
+                        {formatRate(stage.conversion)}
+                      </span>
+                    </td>
+                  ))}
+                  <td className="py-3 text-slate-600">{formatRate(group.stages[0].count > 0 ? group.stages[group.stages.length - 1].overall : null)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-500 mt-3">
+          Highlighted steps convert at least 5 points below the same step across all rows; the weakest step
+          of each row is in bold.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default FunnelView;
@@ -11,13 +11,31 @@ import {
   Brain, Lightbulb, Network, UserPlus, Users,
   MessageSquare, Star, Crown, Info,
   Shield, Building2, AlertCircle, ThumbsUp, Download, FileSpreadsheet,
-  Trophy, Flame
+  Trophy, Flame, FlaskConical, Funnel
 } from 'lucide-react';
-import { exportToCSV } from '../utils/metricsUtils';
+import { exportToCSV, formatNumber, getPerformanceTier } from '../utils/metricsUtils';
+import {
+  parseNum, sumMetrics, aggregateBy, agentPerformance as rankAgents, linearRegression
+} from '../../shared/analytics.js';
+import { forecastSeries } from '../../shared/forecast.js';
+import type { Forecast } from '../../shared/forecast.js';
+import type { AnalyticsRow } from '../../shared/analytics.js';
+import { usePermissions } from '../hooks/usePermissions';
+import { useMetricAlerts } from '../hooks/useMetricAlerts';
+import type { AlertMetric } from '../../shared/anomalies.js';
+import ExperimentView from './ExperimentView';
+import FunnelView from './FunnelView';
 
 // Personal goals storage key
 const GOALS_STORAGE_KEY = 'insurance_analytics_goals';
 
+// Suggested next step for each kind of metric alert
+const ALERT_ACTIONS: Record<AlertMetric, string> = {
+  invited: 'Check whether the LinkedIn account is restricted or the invite queue is paused.',
+  acceptanceRate: 'Review recent changes to targeting and the connection request message.',
+  replyRate: 'Review the follow-up messages sent this week and who they went to.',
+};
+
 // ============================================================================
 // INDUSTRY BENCHMARKS (2024-2025 Research Data)
 // Sources: Belkins, Expandi, Alsona, InsureSoft, InsightSoftware
@@ -76,13 +94,19 @@ const INDUSTRY_BENCHMARKS = {
   }
 };
 
-// Performance tier thresholds
-const PERFORMANCE_TIERS = {
-  elite: { min: 50, label: 'Elite', color: '#8B5CF6', icon: Crown },
-  excellent: { min: 40, label: 'Excellent', color: '#10B981', icon: Star },
-  good: { min: 29.61, label: 'Above Benchmark', color: '#13BCC5', icon: ThumbsUp },
-  average: { min: 20, label: 'Average', color: '#F59E0B', icon: Activity },
-  needsWork: { min: 0, label: 'Needs Improvement', color: '#EF4444', icon: AlertTriangle }
+// Icon of each acceptance rate tier (see getPerformanceTier)
+const TIER_ICONS: Record<string, typeof Crown> = {
+  elite: Crown,
+  excellent: Star,
+  good: ThumbsUp,
+  average: Activity,
+  needsWork: AlertTriangle
+};
+
+// Acceptance rate tier with its icon
+const acceptanceTier = (acceptanceRate: number) => {
+  const tier = getPerformanceTier(acceptanceRate);
+  return { ...tier, icon: TIER_ICONS[tier.key] };
 };
 
 // Chart colors
@@ -97,108 +121,12 @@ const COLORS = {
   blue: '#3B82F6'
 };
 
-interface WeekMetric {
-  id: string;
-  rowIndex: number;
-  status: string;
-  campaign: string;
-  message: string;
-  audience: string;
-  agent: string;
-  acceptanceRate: string;
-  replies: string;
-  replyPercent: string;
-  defyLead: string;
-  target: string;
-  algoType: string;
-  weekEnd: string;
-  location: string;
-  queue: string;
-  totalInvited: string;
-  totalAccepted: string;
-  netNewConnects: string;
-  startingConnects: string;
-  endingConnections: string;
-  totalMessaged: string;
-  totalActions: string;
-}
-
 interface InsuranceDataAnalyticsProps {
-  metrics: WeekMetric[];
-  allMetrics?: WeekMetric[];
+  metrics: AnalyticsRow[];
+  allMetrics?: AnalyticsRow[];
   selectedAgent?: string;
 }
 
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
-const parseNum = (val: string | undefined): number => {
-  if (!val) return 0;
-  const cleaned = val.replace(/[%,]/g, '').trim();
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? 0 : num;
-};
-
-const formatNumber = (num: number): string => {
-  if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
-  if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
-  return num.toFixed(0);
-};
-
-const getPerformanceTier = (acceptanceRate: number): typeof PERFORMANCE_TIERS[keyof typeof PERFORMANCE_TIERS] & { key: string } => {
-  if (acceptanceRate >= PERFORMANCE_TIERS.elite.min) return { ...PERFORMANCE_TIERS.elite, key: 'elite' };
-  if (acceptanceRate >= PERFORMANCE_TIERS.excellent.min) return { ...PERFORMANCE_TIERS.excellent, key: 'excellent' };
-  if (acceptanceRate >= PERFORMANCE_TIERS.good.min) return { ...PERFORMANCE_TIERS.good, key: 'good' };
-  if (acceptanceRate >= PERFORMANCE_TIERS.average.min) return { ...PERFORMANCE_TIERS.average, key: 'average' };
-  return { ...PERFORMANCE_TIERS.needsWork, key: 'needsWork' };
-};
-
-// Linear regression for predictions
-const linearRegression = (data: number[]): { slope: number; intercept: number; r2: number } => {
-  const n = data.length;
-  if (n < 2) return { slope: 0, intercept: data[0] || 0, r2: 0 };
-
-  const xMean = (n - 1) / 2;
-  const yMean = data.reduce((a, b) => a + b, 0) / n;
-
-  let ssXY = 0, ssXX = 0, ssYY = 0;
-  for (let i = 0; i < n; i++) {
-    ssXY += (i - xMean) * (data[i] - yMean);
-    ssXX += (i - xMean) ** 2;
-    ssYY += (data[i] - yMean) ** 2;
-  }
-
-  const slope = ssXX !== 0 ? ssXY / ssXX : 0;
-  const intercept = yMean - slope * xMean;
-  const r2 = ssYY !== 0 ? (ssXY ** 2) / (ssXX * ssYY) : 0;
-
-  return { slope, intercept, r2 };
-};
-
-// Predict future values
-const predictFuture = (data: number[], periods: number): number[] => {
-  const { slope, intercept } = linearRegression(data);
-  const predictions: number[] = [];
-  for (let i = 0; i < periods; i++) {
-    const predicted = slope * (data.length + i) + intercept;
-    predictions.push(Math.max(0, predicted));
-  }
-  return predictions;
-};
-
-// Calculate confidence interval
-const calculateConfidenceInterval = (data: number[], confidence: number = 0.95): { lower: number; upper: number; mean: number } => {
-  const n = data.length;
-  if (n === 0) return { lower: 0, upper: 0, mean: 0 };
-
-  const mean = data.reduce((a, b) => a + b, 0) / n;
-  const stdDev = Math.sqrt(data.reduce((sq, val) => sq + (val - mean) ** 2, 0) / n);
-  const z = confidence === 0.95 ? 1.96 : confidence === 0.99 ? 2.576 : 1.645;
-  const margin = z * (stdDev / Math.sqrt(n));
-
-  return { lower: mean - margin, upper: mean + margin, mean };
-};
-
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -212,8 +140,10 @@ interface PersonalGoal {
 }
 
 const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics, allMetrics, selectedAgent }) => {
-  const [activeTab, setActiveTab] = useState<'executive' | 'performance' | 'benchmarks' | 'predictions' | 'insights'>('executive');
+  const [activeTab, setActiveTab] = useState<'executive' | 'performance' | 'funnel' | 'benchmarks' | 'predictions' | 'experiments' | 'insights'>('executive');
   const [showFilters, setShowFilters] = useState(false);
+  const permissions = usePermissions();
+  const metricAlerts = useMetricAlerts();
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
   const [selectedCampaigns, setSelectedCampaigns] = useState<string[]>([]);
   const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
@@ -289,17 +219,13 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
   const teamAnalytics = useMemo(() => {
     if (!isIndividualView || !teamMetrics.length) return null;
 
-    const totalInvited = teamMetrics.reduce((sum, m) => sum + parseNum(m.totalInvited), 0);
-    const totalAccepted = teamMetrics.reduce((sum, m) => sum + parseNum(m.totalAccepted), 0);
-    const totalMessaged = teamMetrics.reduce((sum, m) => sum + parseNum(m.totalMessaged), 0);
-    const totalReplies = teamMetrics.reduce((sum, m) => sum + parseNum(m.replies), 0);
-
+    const team = sumMetrics(teamMetrics);
     return {
-      avgAcceptanceRate: totalInvited > 0 ? (totalAccepted / totalInvited) * 100 : 0,
-      avgReplyRate: totalMessaged > 0 ? (totalReplies / totalMessaged) * 100 : 0,
-      totalInvited,
-      totalAccepted,
-      totalReplies
+      avgAcceptanceRate: team.acceptanceRate,
+      avgReplyRate: team.replyRate,
+      totalInvited: team.invited,
+      totalAccepted: team.accepted,
+      totalReplies: team.replies
     };
   }, [isIndividualView, teamMetrics]);
 
@@ -312,17 +238,18 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
     }
 
     // Core metrics
-    const totalInvited = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalInvited), 0);
-    const totalAccepted = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalAccepted), 0);
-    const totalMessaged = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalMessaged), 0);
-    const totalReplies = filteredMetrics.reduce((sum, m) => sum + parseNum(m.replies), 0);
-    const totalActions = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalActions), 0);
-    const netNewConnects = filteredMetrics.reduce((sum, m) => sum + parseNum(m.netNewConnects), 0);
+    const totals = sumMetrics(filteredMetrics);
+    const totalInvited = totals.invited;
+    const totalAccepted = totals.accepted;
+    const totalMessaged = totals.messaged;
+    const totalReplies = totals.replies;
+    const totalActions = totals.actions;
+    const netNewConnects = totals.netNew;
 
     // Rates
-    const overallAcceptanceRate = totalInvited > 0 ? (totalAccepted / totalInvited) * 100 : 0;
-    const overallReplyRate = totalMessaged > 0 ? (totalReplies / totalMessaged) * 100 : 0;
-    const engagementRate = totalAccepted > 0 ? (totalReplies / totalAccepted) * 100 : 0;
+    const overallAcceptanceRate = totals.acceptanceRate;
+    const overallReplyRate = totals.replyRate;
+    const engagementRate = totals.engagementRate;
     const actionRate = totalInvited > 0 ? (totalActions / totalInvited) * 100 : 0;
 
     // Network growth
@@ -337,208 +264,45 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
     const replyVsBenchmark = overallReplyRate - replyBenchmark;
 
     // Performance tier
-    const performanceTier = getPerformanceTier(overallAcceptanceRate);
-
-    // Weekly trends
-    const weeklyData = new Map<string, {
-      invited: number;
-      accepted: number;
-      messaged: number;
-      replies: number;
-      actions: number;
-      netNew: number;
-      acceptanceRate: number;
-      replyRate: number;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (!m.weekEnd) return;
-      const existing = weeklyData.get(m.weekEnd) || {
-        invited: 0, accepted: 0, messaged: 0, replies: 0, actions: 0, netNew: 0,
-        acceptanceRate: 0, replyRate: 0
-      };
-      existing.invited += parseNum(m.totalInvited);
-      existing.accepted += parseNum(m.totalAccepted);
-      existing.messaged += parseNum(m.totalMessaged);
-      existing.replies += parseNum(m.replies);
-      existing.actions += parseNum(m.totalActions);
-      existing.netNew += parseNum(m.netNewConnects);
-      weeklyData.set(m.weekEnd, existing);
-    });
-
-    // Calculate weekly rates
-    weeklyData.forEach((data) => {
-      data.acceptanceRate = data.invited > 0 ? (data.accepted / data.invited) * 100 : 0;
-      data.replyRate = data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0;
-    });
-
-    const weeklyTrends = Array.from(weeklyData.entries())
-      .map(([week, data]) => ({ week, ...data }))
-      .sort((a, b) => new Date(a.week).getTime() - new Date(b.week).getTime());
-
-    // Monthly aggregation
-    const monthlyData = new Map<string, typeof weeklyData extends Map<string, infer V> ? V : never>();
-    filteredMetrics.forEach(m => {
-      if (!m.weekEnd) return;
-      const month = m.weekEnd.substring(0, 7);
-      const existing = monthlyData.get(month) || {
-        invited: 0, accepted: 0, messaged: 0, replies: 0, actions: 0, netNew: 0,
-        acceptanceRate: 0, replyRate: 0
-      };
-      existing.invited += parseNum(m.totalInvited);
-      existing.accepted += parseNum(m.totalAccepted);
-      existing.messaged += parseNum(m.totalMessaged);
-      existing.replies += parseNum(m.replies);
-      existing.actions += parseNum(m.totalActions);
-      existing.netNew += parseNum(m.netNewConnects);
-      monthlyData.set(month, existing);
-    });
+    const performanceTier = acceptanceTier(overallAcceptanceRate);
 
-    monthlyData.forEach((data) => {
-      data.acceptanceRate = data.invited > 0 ? (data.accepted / data.invited) * 100 : 0;
-      data.replyRate = data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0;
-    });
-
-    const monthlyTrends = Array.from(monthlyData.entries())
-      .map(([month, data]) => ({ month, ...data }))
-      .sort((a, b) => a.month.localeCompare(b.month));
-
-    // Agent performance with comprehensive scoring
-    const agentData = new Map<string, {
-      invited: number;
-      accepted: number;
-      messaged: number;
-      replies: number;
-      actions: number;
-      campaigns: Set<string>;
-      weeks: number;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (!m.agent) return;
-      const existing = agentData.get(m.agent) || {
-        invited: 0, accepted: 0, messaged: 0, replies: 0, actions: 0,
-        campaigns: new Set(), weeks: 0
-      };
-      existing.invited += parseNum(m.totalInvited);
-      existing.accepted += parseNum(m.totalAccepted);
-      existing.messaged += parseNum(m.totalMessaged);
-      existing.replies += parseNum(m.replies);
-      existing.actions += parseNum(m.totalActions);
-      if (m.campaign) existing.campaigns.add(m.campaign);
-      existing.weeks++;
-      agentData.set(m.agent, existing);
-    });
+    // Weekly and monthly trends
+    const weeklyTrends = aggregateBy(filteredMetrics, 'week').map(({ key, ...data }) => ({ week: key, ...data }));
+    const monthlyTrends = aggregateBy(filteredMetrics, 'month').map(({ key, ...data }) => ({ month: key, ...data }));
 
-    const agentPerformance = Array.from(agentData.entries()).map(([agent, data]) => {
-      const acceptanceRate = data.invited > 0 ? (data.accepted / data.invited) * 100 : 0;
-      const replyRate = data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0;
-      const engagementRate = data.accepted > 0 ? (data.replies / data.accepted) * 100 : 0;
-
-      // Comprehensive scoring (0-100)
-      // Weight: Acceptance 35%, Reply 30%, Volume 20%, Consistency 15%
-      const acceptanceScore = Math.min(100, (acceptanceRate / 50) * 100) * 0.35;
-      const replyScore = Math.min(100, (replyRate / 30) * 100) * 0.30;
-      const volumeScore = Math.min(100, (data.invited / 1000) * 100) * 0.20;
-      const consistencyScore = Math.min(100, (data.weeks / 12) * 100) * 0.15;
-      const totalScore = acceptanceScore + replyScore + volumeScore + consistencyScore;
-
-      const tier = getPerformanceTier(acceptanceRate);
-      const vsBenchmark = acceptanceRate - acceptanceBenchmark;
-
-      return {
-        agent,
-        ...data,
-        campaigns: data.campaigns.size,
-        acceptanceRate,
-        replyRate,
-        engagementRate,
-        score: Math.round(totalScore),
-        tier,
-        vsBenchmark
-      };
-    }).sort((a, b) => b.score - a.score);
+    // Agent performance with comprehensive scoring, tiered by acceptance rate
+    const agentPerformance = rankAgents(filteredMetrics).map(({ key, ...data }) => ({
+      agent: key,
+      ...data,
+      tier: acceptanceTier(data.acceptanceRate),
+      vsBenchmark: data.acceptanceRate - acceptanceBenchmark
+    }));
 
     // Campaign analysis
-    const campaignData = new Map<string, {
-      invited: number;
-      accepted: number;
-      messaged: number;
-      replies: number;
-      agents: Set<string>;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (!m.campaign) return;
-      const existing = campaignData.get(m.campaign) || {
-        invited: 0, accepted: 0, messaged: 0, replies: 0, agents: new Set()
-      };
-      existing.invited += parseNum(m.totalInvited);
-      existing.accepted += parseNum(m.totalAccepted);
-      existing.messaged += parseNum(m.totalMessaged);
-      existing.replies += parseNum(m.replies);
-      if (m.agent) existing.agents.add(m.agent);
-      campaignData.set(m.campaign, existing);
-    });
-
-    const campaignPerformance = Array.from(campaignData.entries()).map(([campaign, data]) => ({
-      campaign,
-      ...data,
-      agents: data.agents.size,
-      acceptanceRate: data.invited > 0 ? (data.accepted / data.invited) * 100 : 0,
-      replyRate: data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0
-    })).sort((a, b) => b.acceptanceRate - a.acceptanceRate);
+    const campaignPerformance = aggregateBy(filteredMetrics, 'campaign')
+      .map(({ key, ...data }) => ({ campaign: key, ...data }))
+      .sort((a, b) => b.acceptanceRate - a.acceptanceRate);
 
     // Location analysis
-    const locationData = new Map<string, { invited: number; accepted: number; replies: number }>();
-    filteredMetrics.forEach(m => {
-      const loc = m.location || 'Unknown';
-      const existing = locationData.get(loc) || { invited: 0, accepted: 0, replies: 0 };
-      existing.invited += parseNum(m.totalInvited);
-      existing.accepted += parseNum(m.totalAccepted);
-      existing.replies += parseNum(m.replies);
-      locationData.set(loc, existing);
-    });
-
-    const locationPerformance = Array.from(locationData.entries()).map(([location, data]) => ({
-      location,
-      ...data,
-      acceptanceRate: data.invited > 0 ? (data.accepted / data.invited) * 100 : 0
-    })).sort((a, b) => b.invited - a.invited);
+    const locationPerformance = aggregateBy(filteredMetrics, 'location').map(({ key, ...data }) => ({ location: key, ...data }));
 
     // Audience analysis
-    const audienceData = new Map<string, { invited: number; accepted: number; replies: number }>();
-    filteredMetrics.forEach(m => {
-      const aud = m.audience || 'Unknown';
-      const existing = audienceData.get(aud) || { invited: 0, accepted: 0, replies: 0 };
-      existing.invited += parseNum(m.totalInvited);
-      existing.accepted += parseNum(m.totalAccepted);
-      existing.replies += parseNum(m.replies);
-      audienceData.set(aud, existing);
-    });
-
-    const audiencePerformance = Array.from(audienceData.entries()).map(([audience, data]) => ({
-      audience,
-      ...data,
-      acceptanceRate: data.invited > 0 ? (data.accepted / data.invited) * 100 : 0
-    })).sort((a, b) => b.acceptanceRate - a.acceptanceRate);
+    const audiencePerformance = aggregateBy(filteredMetrics, 'audience')
+      .map(({ key, ...data }) => ({ audience: key, ...data }))
+      .sort((a, b) => b.acceptanceRate - a.acceptanceRate);
 
-    // Predictions using linear regression
+    // 4-week forecasts; each series gets whichever model backtests best on it
     const acceptanceRates = weeklyTrends.map(w => w.acceptanceRate);
     const replyRates = weeklyTrends.map(w => w.replyRate);
     const invitedCounts = weeklyTrends.map(w => w.invited);
 
-    const acceptancePredictions = predictFuture(acceptanceRates, 4);
-    const replyPredictions = predictFuture(replyRates, 4);
-    const volumePredictions = predictFuture(invitedCounts, 4);
+    const acceptanceForecast = forecastSeries(acceptanceRates, 4, { max: 100 });
+    const replyForecast = forecastSeries(replyRates, 4, { max: 100 });
+    const volumeForecast = forecastSeries(invitedCounts, 4);
 
     const acceptanceTrend = linearRegression(acceptanceRates);
     const replyTrend = linearRegression(replyRates);
 
-    // Confidence intervals
-    const acceptanceCI = calculateConfidenceInterval(acceptanceRates);
-    const replyCI = calculateConfidenceInterval(replyRates);
-
     // Generate AI insights
     const insights = generateInsights({
       overallAcceptanceRate,
@@ -592,13 +356,11 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
       audiencePerformance,
 
       // Predictions
-      acceptancePredictions,
-      replyPredictions,
-      volumePredictions,
+      acceptanceForecast,
+      replyForecast,
+      volumeForecast,
       acceptanceTrend,
       replyTrend,
-      acceptanceCI,
-      replyCI,
 
       // Insights
       insights
@@ -840,8 +602,10 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
       {[
         { id: 'executive', label: 'Executive Summary', icon: Building2 },
         { id: 'performance', label: 'Performance', icon: BarChart3 },
+        { id: 'funnel', label: 'Funnel', icon: Funnel },
         { id: 'benchmarks', label: 'Benchmarks', icon: Target },
         { id: 'predictions', label: 'Predictions', icon: Brain },
+        { id: 'experiments', label: 'A/B Tests', icon: FlaskConical },
         { id: 'insights', label: 'AI Insights', icon: Sparkles }
       ].map(tab => (
         <button
@@ -1653,26 +1417,41 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
       acceptanceRate: w.acceptanceRate,
       replyRate: w.replyRate,
       invited: w.invited,
+      acceptanceRange: null as [number, number] | null,
       isPrediction: false
     }));
 
+    // Start the interval band at the last actual week so it joins the line
+    if (predictionData.length > 0) {
+      const last = predictionData[predictionData.length - 1];
+      last.acceptanceRange = [last.acceptanceRate, last.acceptanceRate];
+    }
+
     // Add predictions
     const lastDate = analytics.weeklyTrends.length > 0
       ? new Date(analytics.weeklyTrends[analytics.weeklyTrends.length - 1].week)
       : new Date();
 
-    analytics.acceptancePredictions.forEach((pred, i) => {
+    analytics.acceptanceForecast.points.forEach((point, i) => {
       const futureDate = new Date(lastDate);
       futureDate.setDate(futureDate.getDate() + (i + 1) * 7);
       predictionData.push({
         period: futureDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        acceptanceRate: pred,
-        replyRate: analytics.replyPredictions[i],
-        invited: analytics.volumePredictions[i],
+        acceptanceRate: point.value,
+        replyRate: analytics.replyForecast.points[i].value,
+        invited: analytics.volumeForecast.points[i].value,
+        acceptanceRange: [point.lower, point.upper],
         isPrediction: true
       });
     });
 
+    const weekFour = analytics.acceptanceForecast.points[3];
+    const forecasts: { label: string; forecast: Forecast; unit: string }[] = [
+      { label: 'Acceptance rate', forecast: analytics.acceptanceForecast, unit: '%' },
+      { label: 'Reply rate', forecast: analytics.replyForecast, unit: '%' },
+      { label: 'Invitations', forecast: analytics.volumeForecast, unit: '' }
+    ];
+
     return (
       <div className="space-y-6">
         {/* Prediction Header */}
@@ -1682,8 +1461,52 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
             <h2 className="text-xl font-bold text-[#1b1e4c]">ML-Powered Predictions</h2>
           </div>
           <p className="text-slate-600">
-            4-week forecasts using linear regression on your historical data.
-            Confidence interval: 95%
+            4-week forecasts with 95% prediction intervals. Each metric uses the model that
+            predicted its recent weeks best.
+          </p>
+        </div>
+
+        {/* Model Selection & Accuracy */}
+        <div className="bg-white rounded-xl border border-slate-100 p-6">
+          <h3 className="text-lg font-bold text-[#1b1e4c] mb-4">Forecast Models</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                  <th className="py-2 pr-4 font-medium">Metric</th>
+                  <th className="py-2 pr-4 font-medium">Method</th>
+                  <th className="py-2 pr-4 font-medium">MAE</th>
+                  <th className="py-2 font-medium">MAPE</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {forecasts.map(({ label, forecast, unit }) => (
+                  <tr key={label}>
+                    <td className="py-3 pr-4 font-medium text-[#1b1e4c]">{label}</td>
+                    <td className="py-3 pr-4">
+                      <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 text-xs font-medium">
+                        {forecast.label}
+                      </span>
+                    </td>
+                    {forecast.accuracy ? (
+                      <>
+                        <td className="py-3 pr-4 text-slate-600">
+                          {unit ? `${forecast.accuracy.mae.toFixed(1)}${unit}` : formatNumber(forecast.accuracy.mae)}
+                        </td>
+                        <td className="py-3 text-slate-600">
+                          {forecast.accuracy.mape !== null ? `${forecast.accuracy.mape.toFixed(1)}%` : '—'}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={2} className="py-3 text-xs text-slate-400">Not enough weeks to backtest</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 mt-3">
+            Errors are one-week-ahead forecasts of your latest weeks, each made only from the weeks before it.
           </p>
         </div>
 
@@ -1705,7 +1528,7 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
                   style={{ width: `${analytics.acceptanceTrend.r2 * 100}%` }}
                 />
               </div>
-              <span className="text-xs text-slate-500">{(analytics.acceptanceTrend.r2 * 100).toFixed(0)}% confidence</span>
+              <span className="text-xs text-slate-500">{(analytics.acceptanceTrend.r2 * 100).toFixed(0)}% fit (R²)</span>
             </div>
           </div>
 
@@ -1715,10 +1538,10 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
               <span className="text-sm text-slate-600">Predicted 4-Week Acceptance</span>
             </div>
             <p className="text-3xl font-bold text-[#1b1e4c]">
-              {analytics.acceptancePredictions[3]?.toFixed(1)}%
+              {weekFour.value.toFixed(1)}%
             </p>
             <p className="text-sm text-slate-500">
-              Range: {analytics.acceptanceCI.lower.toFixed(1)}% - {analytics.acceptanceCI.upper.toFixed(1)}%
+              95% interval: {weekFour.lower.toFixed(1)}% - {weekFour.upper.toFixed(1)}%
             </p>
           </div>
 
@@ -1728,7 +1551,7 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
               <span className="text-sm text-slate-600">Projected 4-Week Volume</span>
             </div>
             <p className="text-3xl font-bold text-[#1b1e4c]">
-              {formatNumber(analytics.volumePredictions.reduce((a, b) => a + b, 0))}
+              {formatNumber(analytics.volumeForecast.points.reduce((sum, point) => sum + point.value, 0))}
             </p>
             <p className="text-sm text-slate-500">total invitations</p>
           </div>
@@ -1746,7 +1569,9 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
                 <Tooltip
                   contentStyle={{ borderRadius: '12px', border: '1px solid #e2e8f0' }}
                   formatter={(value, name) => [
-                    `${Number(value || 0).toFixed(1)}%`,
+                    Array.isArray(value)
+                      ? value.map(bound => `${Number(bound).toFixed(1)}%`).join(' - ')
+                      : `${Number(value || 0).toFixed(1)}%`,
                     name
                   ]}
                 />
@@ -1757,6 +1582,14 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
                   strokeDasharray="5 5"
                   label={{ value: 'Benchmark', position: 'right', fontSize: 10, fill: '#F59E0B' }}
                 />
+                <Area
+                  type="monotone"
+                  dataKey="acceptanceRange"
+                  fill={COLORS.success}
+                  fillOpacity={0.1}
+                  stroke="none"
+                  name="Acceptance 95% Interval"
+                />
                 <Area
                   type="monotone"
                   dataKey="acceptanceRate"
@@ -1795,21 +1628,21 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
           <div className="grid md:grid-cols-3 gap-4">
             <div className="p-4 bg-red-50 rounded-xl border border-red-100">
               <h4 className="font-semibold text-red-800">Pessimistic</h4>
-              <p className="text-2xl font-bold text-red-600 mt-2">{analytics.acceptanceCI.lower.toFixed(1)}%</p>
+              <p className="text-2xl font-bold text-red-600 mt-2">{weekFour.lower.toFixed(1)}%</p>
               <p className="text-sm text-red-700">acceptance rate</p>
-              <p className="text-xs text-red-600 mt-2">Lower bound (95% CI)</p>
+              <p className="text-xs text-red-600 mt-2">Week 4, lower bound of the 95% interval</p>
             </div>
             <div className="p-4 bg-emerald-50 rounded-xl border border-emerald-100">
               <h4 className="font-semibold text-emerald-800">Expected</h4>
-              <p className="text-2xl font-bold text-emerald-600 mt-2">{analytics.acceptanceCI.mean.toFixed(1)}%</p>
+              <p className="text-2xl font-bold text-emerald-600 mt-2">{weekFour.value.toFixed(1)}%</p>
               <p className="text-sm text-emerald-700">acceptance rate</p>
-              <p className="text-xs text-emerald-600 mt-2">Most likely outcome</p>
+              <p className="text-xs text-emerald-600 mt-2">Week 4 point forecast</p>
             </div>
             <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
               <h4 className="font-semibold text-blue-800">Optimistic</h4>
-              <p className="text-2xl font-bold text-blue-600 mt-2">{analytics.acceptanceCI.upper.toFixed(1)}%</p>
+              <p className="text-2xl font-bold text-blue-600 mt-2">{weekFour.upper.toFixed(1)}%</p>
               <p className="text-sm text-blue-700">acceptance rate</p>
-              <p className="text-xs text-blue-600 mt-2">Upper bound (95% CI)</p>
+              <p className="text-xs text-blue-600 mt-2">Week 4, upper bound of the 95% interval</p>
             </div>
           </div>
         </div>
@@ -1823,6 +1656,22 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
   const renderInsights = () => {
     if (!analytics) return null;
 
+    // Metric alerts of the agents in view come first, critical ones as high priority
+    const agentsInView = new Set(filteredMetrics.map(m => (m.agent || '').trim()));
+    const insights = [
+      ...metricAlerts.alerts
+        .filter(alert => agentsInView.has(alert.agent))
+        .map(alert => ({
+          type: alert.severity === 'critical' ? 'danger' as const : 'warning' as const,
+          title: `${alert.agent}: ${alert.label} Drop`,
+          description: `${alert.message}.`,
+          action: ALERT_ACTIONS[alert.metric],
+          metric: `Metric alert (${alert.severity})`,
+          priority: alert.severity === 'critical' ? 'high' as const : 'medium' as const,
+        })),
+      ...analytics.insights,
+    ];
+
     const priorityColors = {
       high: { bg: 'bg-red-50', border: 'border-red-200', badge: 'bg-red-100 text-red-700' },
       medium: { bg: 'bg-amber-50', border: 'border-amber-200', badge: 'bg-amber-100 text-amber-700' },
@@ -1863,7 +1712,7 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
             High Priority Actions
           </h3>
           <div className="space-y-3">
-            {analytics.insights.filter(i => i.priority === 'high').map((insight, index) => {
+            {insights.filter(i => i.priority === 'high').map((insight, index) => {
               const Icon = typeIcons[insight.type];
               return (
                 <div
@@ -1904,7 +1753,7 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
             Optimization Opportunities
           </h3>
           <div className="grid md:grid-cols-2 gap-3">
-            {analytics.insights.filter(i => i.priority === 'medium').map((insight, index) => {
+            {insights.filter(i => i.priority === 'medium').map((insight, index) => {
               const Icon = typeIcons[insight.type];
               return (
                 <div
@@ -1934,7 +1783,7 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
             What's Working Well
           </h3>
           <div className="grid md:grid-cols-3 gap-3">
-            {analytics.insights.filter(i => i.priority === 'low').map((insight, index) => {
+            {insights.filter(i => i.priority === 'low').map((insight, index) => {
               const Icon = typeIcons[insight.type];
               return (
                 <div
@@ -2071,73 +1920,75 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
             <span>Analyzing {filteredMetrics.length} records</span>
           </div>
           {/* Export Buttons */}
-          <div className="flex items-center gap-2">
-            <button
-              onClick={() => {
-                const exportData = filteredMetrics.map(m => ({
-                  Agent: m.agent,
-                  Campaign: m.campaign,
-                  'Week End': m.weekEnd,
-                  'Total Invited': m.totalInvited,
-                  'Total Accepted': m.totalAccepted,
-                  'Acceptance Rate': m.acceptanceRate,
-                  'Total Messaged': m.totalMessaged,
-                  Replies: m.replies,
-                  'Reply %': m.replyPercent,
-                  'Defy Lead': m.defyLead,
-                  Location: m.location,
-                  Audience: m.audience,
-                  Status: m.status
-                }));
-                exportToCSV(exportData, isIndividualView ? `${selectedAgent}_metrics` : 'team_metrics');
-              }}
-              className="flex items-center gap-2 px-3 py-2 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 transition-colors text-sm font-medium"
-              aria-label="Export data to CSV"
-            >
-              <FileSpreadsheet size={16} />
-              <span className="hidden sm:inline">Export CSV</span>
-            </button>
-            {analytics && (
+          {permissions.exportData && (
+            <div className="flex items-center gap-2">
               <button
                 onClick={() => {
-                  const summaryData = [{
-                    Metric: 'Total Invited',
-                    Value: analytics.totalInvited
-                  }, {
-                    Metric: 'Total Accepted',
-                    Value: analytics.totalAccepted
-                  }, {
-                    Metric: 'Acceptance Rate',
-                    Value: analytics.overallAcceptanceRate.toFixed(1) + '%'
-                  }, {
-                    Metric: 'Total Messaged',
-                    Value: analytics.totalMessaged
-                  }, {
-                    Metric: 'Total Replies',
-                    Value: analytics.totalReplies
-                  }, {
-                    Metric: 'Reply Rate',
-                    Value: analytics.overallReplyRate.toFixed(1) + '%'
-                  }, {
-                    Metric: 'Net New Connects',
-                    Value: analytics.netNewConnects
-                  }, {
-                    Metric: 'Performance Tier',
-                    Value: analytics.performanceTier.label
-                  }, {
-                    Metric: 'vs Benchmark',
-                    Value: (analytics.acceptanceVsBenchmark >= 0 ? '+' : '') + analytics.acceptanceVsBenchmark.toFixed(1) + '%'
-                  }];
-                  exportToCSV(summaryData, isIndividualView ? `${selectedAgent}_summary` : 'analytics_summary');
+                  const exportData = filteredMetrics.map(m => ({
+                    Agent: m.agent,
+                    Campaign: m.campaign,
+                    'Week End': m.weekEnd,
+                    'Total Invited': m.totalInvited,
+                    'Total Accepted': m.totalAccepted,
+                    'Acceptance Rate': m.acceptanceRate,
+                    'Total Messaged': m.totalMessaged,
+                    Replies: m.replies,
+                    'Reply %': m.replyPercent,
+                    'Defy Lead': m.defyLead,
+                    Location: m.location,
+                    Audience: m.audience,
+                    Status: m.status
+                  }));
+                  exportToCSV(exportData, isIndividualView ? `${selectedAgent}_metrics` : 'team_metrics');
                 }}
-                className="flex items-center gap-2 px-3 py-2 bg-purple-50 text-purple-600 rounded-lg hover:bg-purple-100 transition-colors text-sm font-medium"
-                aria-label="Export summary report"
+                className="flex items-center gap-2 px-3 py-2 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 transition-colors text-sm font-medium"
+                aria-label="Export data to CSV"
               >
-                <Download size={16} />
-                <span className="hidden sm:inline">Summary</span>
+                <FileSpreadsheet size={16} />
+                <span className="hidden sm:inline">Export CSV</span>
               </button>
-            )}
-          </div>
+              {analytics && (
+                <button
+                  onClick={() => {
+                    const summaryData = [{
+                      Metric: 'Total Invited',
+                      Value: analytics.totalInvited
+                    }, {
+                      Metric: 'Total Accepted',
+                      Value: analytics.totalAccepted
+                    }, {
+                      Metric: 'Acceptance Rate',
+                      Value: analytics.overallAcceptanceRate.toFixed(1) + '%'
+                    }, {
+                      Metric: 'Total Messaged',
+                      Value: analytics.totalMessaged
+                    }, {
+                      Metric: 'Total Replies',
+                      Value: analytics.totalReplies
+                    }, {
+                      Metric: 'Reply Rate',
+                      Value: analytics.overallReplyRate.toFixed(1) + '%'
+                    }, {
+                      Metric: 'Net New Connects',
+                      Value: analytics.netNewConnects
+                    }, {
+                      Metric: 'Performance Tier',
+                      Value: analytics.performanceTier.label
+                    }, {
+                      Metric: 'vs Benchmark',
+                      Value: (analytics.acceptanceVsBenchmark >= 0 ? '+' : '') + analytics.acceptanceVsBenchmark.toFixed(1) + '%'
+                    }];
+                    exportToCSV(summaryData, isIndividualView ? `${selectedAgent}_summary` : 'analytics_summary');
+                  }}
+                  className="flex items-center gap-2 px-3 py-2 bg-purple-50 text-purple-600 rounded-lg hover:bg-purple-100 transition-colors text-sm font-medium"
+                  aria-label="Export summary report"
+                >
+                  <Download size={16} />
+                  <span className="hidden sm:inline">Summary</span>
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -2150,8 +2001,10 @@ const InsuranceDataAnalytics: React.FC<InsuranceDataAnalyticsProps> = ({ metrics
       {/* Tab Content */}
       {activeTab === 'executive' && renderExecutiveSummary()}
       {activeTab === 'performance' && renderPerformance()}
+      {activeTab === 'funnel' && <FunnelView metrics={filteredMetrics} />}
       {activeTab === 'benchmarks' && renderBenchmarks()}
       {activeTab === 'predictions' && renderPredictions()}
+      {activeTab === 'experiments' && <ExperimentView metrics={filteredMetrics} />}
       {activeTab === 'insights' && renderInsights()}
     </div>
   );
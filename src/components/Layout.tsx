@@ -17,11 +17,13 @@ import {
     Bot,
     Sparkles,
     Shield,
-    ArrowLeft
+    ArrowLeft,
+    AlertTriangle
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useSearch } from '../context/SearchContext';
 import { useNavigation, type PageType } from '../context/NavigationContext';
+import { useMetricAlerts } from '../hooks/useMetricAlerts';
 
 interface LayoutProps {
     children: React.ReactNode;
@@ -31,9 +33,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     const [sidebarOpen, setSidebarOpen] = useState(true);
     const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
     const [profileDropdown, setProfileDropdown] = useState(false);
+    const [alertsDropdown, setAlertsDropdown] = useState(false);
     const { user, logout } = useAuth();
     const { searchQuery, setSearchQuery } = useSearch();
     const { currentPage, navigateTo } = useNavigation();
+    const metricAlerts = useMetricAlerts();
+    const criticalAlerts = metricAlerts.alerts.filter(alert => alert.severity === 'critical').length;
 
     // Handle window resize
     useEffect(() => {
@@ -279,11 +284,63 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                             <span className="md:hidden">Live</span>
                         </div>
 
-                        {/* Notifications */}
-                        <button className="relative p-2 text-slate-500 hover:text-[#13BCC5] hover:bg-slate-50 rounded-xl transition-colors">
-                            <Bell size={20} />
-                            <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full" />
-                        </button>
+                        {/* Metric Alerts */}
+                        <div className="relative">
+                            <button
+                                onClick={() => setAlertsDropdown(!alertsDropdown)}
+                                className="relative p-2 text-slate-500 hover:text-[#13BCC5] hover:bg-slate-50 rounded-xl transition-colors"
+                                title={metricAlerts.enabled ? `${metricAlerts.alerts.length} metric alerts` : 'Metric alerts are off'}
+                            >
+                                <Bell size={20} />
+                                {metricAlerts.alerts.length > 0 && (
+                                    <span className={`absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 flex items-center justify-center text-[10px] font-bold text-white rounded-full ${criticalAlerts > 0 ? 'bg-red-500' : 'bg-amber-500'}`}>
+                                        {metricAlerts.alerts.length > 9 ? '9+' : metricAlerts.alerts.length}
+                                    </span>
+                                )}
+                            </button>
+
+                            {alertsDropdown && (
+                                <>
+                                    <div
+                                        className="fixed inset-0 z-40"
+                                        onClick={() => setAlertsDropdown(false)}
+                                    />
+                                    <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-xl shadow-lg border border-slate-100 py-2 z-50">
+                                        <div className="px-4 py-2 border-b border-slate-100">
+                                            <p className="font-semibold text-slate-700">Metric Alerts</p>
+                                            <p className="text-xs text-slate-400">Sudden drops in the latest 4 weeks</p>
+                                        </div>
+                                        {!metricAlerts.enabled ? (
+                                            <button
+                                                onClick={() => {
+                                                    setAlertsDropdown(false);
+                                                    navigateTo('settings');
+                                                }}
+                                                className="w-full px-4 py-3 text-left text-sm text-slate-500 hover:bg-slate-50"
+                                            >
+                                                Alerts are off. Turn on <span className="text-[#13BCC5] font-medium">Metrics Alerts</span> in Settings.
+                                            </button>
+                                        ) : metricAlerts.error ? (
+                                            <p className="px-4 py-3 text-sm text-red-500">{metricAlerts.error}</p>
+                                        ) : metricAlerts.alerts.length === 0 ? (
+                                            <p className="px-4 py-3 text-sm text-slate-500">No unusual drops. All agents are on track.</p>
+                                        ) : (
+                                            <div className="max-h-80 overflow-y-auto">
+                                                {metricAlerts.alerts.map(alert => (
+                                                    <div key={alert.id} className="px-4 py-2.5 flex items-start gap-2 hover:bg-slate-50">
+                                                        <AlertTriangle size={16} className={`flex-shrink-0 mt-0.5 ${alert.severity === 'critical' ? 'text-red-500' : 'text-amber-500'}`} />
+                                                        <div className="min-w-0">
+                                                            <p className="text-sm font-medium text-slate-700">{alert.agent}</p>
+                                                            <p className="text-xs text-slate-500">{alert.message}</p>
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </div>
 
                         {/* Profile Dropdown */}
                         <div className="relative">
@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import { Eye, EyeOff, Loader2, Lock, Mail, AlertCircle } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 
+// Demo accounts only exist when the server runs with ENABLE_DEMO_ACCOUNTS=true
+const DEMO_ACCOUNTS_ENABLED = import.meta.env.VITE_ENABLE_DEMO_ACCOUNTS === 'true';
+
 const LoginPage: React.FC = () => {
   const { login, loading } = useAuth();
   const [email, setEmail] = useState('');
@@ -116,24 +119,28 @@ const LoginPage: React.FC = () => {
             )}
           </button>
 
-          {/* Divider */}
-          <div className="flex items-center gap-4 my-6">
-            <div className="flex-1 h-px bg-white/10" />
-            <span className="text-sm text-white/40">or</span>
-            <div className="flex-1 h-px bg-white/10" />
-          </div>
+          {DEMO_ACCOUNTS_ENABLED && (
+            <>
+              {/* Divider */}
+              <div className="flex items-center gap-4 my-6">
+                <div className="flex-1 h-px bg-white/10" />
+                <span className="text-sm text-white/40">or</span>
+                <div className="flex-1 h-px bg-white/10" />
+              </div>
 
-          {/* Demo Login */}
-          <button
-            type="button"
-            onClick={() => {
-              setEmail('demo@defyinsurance.com');
-              setPassword('demo123');
-            }}
-            className="w-full bg-white/5 border border-white/10 text-white font-medium py-3 rounded-xl hover:bg-white/10 transition-all"
-          >
-            Use Demo Account
-          </button>
+              {/* Demo Login */}
+              <button
+                type="button"
+                onClick={() => {
+                  setEmail('demo@defyinsurance.com');
+                  setPassword('demo123');
+                }}
+                className="w-full bg-white/5 border border-white/10 text-white font-medium py-3 rounded-xl hover:bg-white/10 transition-all"
+              >
+                Use Demo Account
+              </button>
+            </>
+          )}
         </form>
 
         {/* Footer */}
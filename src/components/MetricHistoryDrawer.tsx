@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { History, X, Loader2, AlertCircle, ArrowRight, RotateCcw } from 'lucide-react';
+import axios from 'axios';
+import type { AuditEntry } from '../types/audit';
+
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+interface MetricHistoryDrawerProps<T> {
+  metricId: string;
+  // Current row version, sent with a revert like any other edit
+  version: string;
+  title: string;
+  fieldLabels: Record<string, string>;
+  canRevert: boolean;
+  onReverted: (metric: T) => void;
+  onClose: () => void;
+}
+
+// Entries written by one save share a timestamp and user - show them as one change
+interface ChangeGroup {
+  key: string;
+  timestamp: string;
+  user: string;
+  action: AuditEntry['action'];
+  entries: AuditEntry[];
+}
+
+const groupEntries = (entries: AuditEntry[]): ChangeGroup[] => {
+  const groups: ChangeGroup[] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (last && last.timestamp === entry.timestamp && last.user === entry.userEmail) {
+      last.entries.push(entry);
+    } else {
+      groups.push({
+        key: `${entry.timestamp}-${entry.userEmail}`,
+        timestamp: entry.timestamp,
+        user: entry.userEmail,
+        action: entry.action,
+        entries: [entry],
+      });
+    }
+  }
+  return groups;
+};
+
+const ACTION_NOTES: Partial<Record<AuditEntry['action'], { text: string; className: string }>> = {
+  add: { text: 'Created the row', className: 'text-emerald-600' },
+  revert: { text: 'Reverted to an earlier version', className: 'text-amber-600' },
+  archive: { text: 'Archived the row', className: 'text-red-600' },
+  restore: { text: 'Restored the row from the archive', className: 'text-emerald-600' },
+  recompute: { text: 'Recomputed from the raw counts', className: 'text-purple-600' },
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || fallback : fallback;
+
+function MetricHistoryDrawer<T>({
+  metricId,
+  version,
+  title,
+  fieldLabels,
+  canRevert,
+  onReverted,
+  onClose,
+}: MetricHistoryDrawerProps<T>) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingKey, setRevertingKey] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    axios.get(`${API_URL}/metrics/history`, { params: { id: metricId } })
+      .then(response => {
+        if (!cancelled) setEntries(response.data);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error fetching metric history:', err);
+        setError(errorMessage(err, 'Failed to load history'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metricId, reloadKey]);
+
+  // Put the row back to how it was right after `group` was saved
+  const handleRevert = async (group: ChangeGroup) => {
+    if (!window.confirm(`Revert this row to the version saved ${new Date(group.timestamp).toLocaleString()}? Later changes will be undone.`)) return;
+
+    try {
+      setRevertingKey(group.key);
+      setError(null);
+      const response = await axios.post(`${API_URL}/metrics/revert`, { id: metricId, version, timestamp: group.timestamp });
+      onReverted(response.data.metric);
+      setReloadKey(key => key + 1);
+    } catch (err: unknown) {
+      console.error('Error reverting metric:', err);
+      setError(errorMessage(err, 'Failed to revert row'));
+    } finally {
+      setRevertingKey(null);
+    }
+  };
+
+  const groups = groupEntries(entries);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-100">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-xl bg-[#13BCC5]/10 flex items-center justify-center flex-shrink-0">
+              <History className="w-5 h-5 text-[#13BCC5]" />
+            </div>
+            <div className="min-w-0">
+              <h4 className="font-bold text-[#1b1e4c]">History</h4>
+              <p className="text-sm text-slate-500 truncate">{title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 text-[#13BCC5] animate-spin" />
+            </div>
+          ) : error && groups.length === 0 ? (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-12">No recorded changes for this row yet.</p>
+          ) : (
+            <ol className="space-y-4">
+              {error && (
+                <li className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  {error}
+                </li>
+              )}
+              {groups.map((group, index) => (
+                <li key={group.key} className="border-l-2 border-[#13BCC5]/30 pl-4">
+                  <div className="flex items-baseline justify-between gap-2 mb-2">
+                    <span className="text-sm font-medium text-[#1b1e4c] truncate">
+                      {group.entries[0].userName || group.user}
+                    </span>
+                    <span className="text-xs text-slate-400 flex-shrink-0">
+                      {new Date(group.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  {ACTION_NOTES[group.action] && (
+                    <p className={`text-xs mb-1 ${ACTION_NOTES[group.action]!.className}`}>{ACTION_NOTES[group.action]!.text}</p>
+                  )}
+                  <ul className="space-y-1">
+                    {group.entries.map(entry => (
+                      <li key={entry.field} className="text-xs text-slate-600 flex items-center gap-1.5 flex-wrap">
+                        <span className="font-medium">{fieldLabels[entry.field] || entry.field}:</span>
+                        {group.action !== 'add' && (
+                          <>
+                            <span className="line-through text-slate-400">{entry.oldValue || '—'}</span>
+                            <ArrowRight size={12} className="text-slate-400" />
+                          </>
+                        )}
+                        <span className="text-[#1b1e4c]">{entry.newValue || '—'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {/* The newest group is the current version */}
+                  {canRevert && index > 0 && (
+                    <button
+                      onClick={() => handleRevert(group)}
+                      disabled={revertingKey !== null}
+                      className="mt-2 flex items-center gap-1 px-2 py-1 text-xs text-amber-700 hover:bg-amber-50 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {revertingKey === group.key ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                      Restore this version
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MetricHistoryDrawer;
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Layers, X, Loader2, AlertCircle, Archive } from 'lucide-react';
+
+interface BulkField<K extends string> {
+  key: K;
+  label: string;
+}
+
+// A row the last batch could not update
+export interface BulkFailure {
+  id: string;
+  label: string;
+  error: string;
+}
+
+interface MetricsBulkEditBarProps<K extends string> {
+  selectedCount: number;
+  fields: BulkField<K>[];
+  // Existing values offered as suggestions for each field
+  suggestions: Record<K, string[]>;
+  saving: boolean;
+  failures: BulkFailure[];
+  onApply: (changes: Partial<Record<K, string>>) => void;
+  // Offered only to roles that may archive rows
+  onArchive?: () => void;
+  onClear: () => void;
+}
+
+function MetricsBulkEditBar<K extends string>({
+  selectedCount,
+  fields,
+  suggestions,
+  saving,
+  failures,
+  onApply,
+  onArchive,
+  onClear,
+}: MetricsBulkEditBarProps<K>) {
+  // Blank fields are left unchanged
+  const [values, setValues] = useState<Partial<Record<K, string>>>({});
+
+  const changes = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+  ) as Partial<Record<K, string>>;
+  const changeCount = Object.keys(changes).length;
+
+  return (
+    <div className="p-4 border-b border-slate-100 bg-[#13BCC5]/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-medium text-[#1b1e4c]">
+          <Layers size={16} className="text-[#13BCC5]" />
+          {selectedCount} row{selectedCount === 1 ? '' : 's'} selected
+        </p>
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+        >
+          <X size={12} />
+          Clear selection
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        {fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-slate-600 mb-1">{field.label}</label>
+            <input
+              type="text"
+              list={`bulk-${field.key}-options`}
+              value={values[field.key] ?? ''}
+              onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              placeholder="Unchanged"
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+            />
+            <datalist id={`bulk-${field.key}-options`}>
+              {suggestions[field.key].map(option => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onArchive && (
+          <button
+            onClick={onArchive}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <Archive size={16} />
+            Archive selected
+          </button>
+        )}
+        <button
+          onClick={() => onApply(changes)}
+          disabled={saving || changeCount === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-[#13BCC5] text-white rounded-lg hover:bg-[#0FA8B0] transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          {saving && <Loader2 size={16} className="animate-spin" />}
+          Apply to {selectedCount} row{selectedCount === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+          <p className="flex items-center gap-2 font-medium mb-1">
+            <AlertCircle size={16} className="flex-shrink-0" />
+            {failures.length} row{failures.length === 1 ? ' was' : 's were'} not updated and stay selected:
+          </p>
+          <ul className="space-y-0.5 text-xs pl-6 list-disc">
+            {failures.map(failure => (
+              <li key={failure.id}>
+                <span className="font-medium">{failure.label}</span> - {failure.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MetricsBulkEditBar;
@@ -0,0 +1,703 @@
+import React, { useState, useRef } from 'react';
+import {
+  FileSpreadsheet,
+  Upload,
+  X,
+  ArrowLeft,
+  ArrowRight,
+  AlertCircle,
+  Loader2,
+  Check,
+  Save,
+  Trash2,
+  CalendarDays,
+  Copy
+} from 'lucide-react';
+import axios from 'axios';
+import {
+  IMPORT_TARGETS,
+  readImportFile,
+  detectLayout,
+  missingTargets,
+  latestWeekday,
+  buildImportWeeks,
+  loadImportPresets,
+  saveImportPresets,
+  normalizeHeader,
+  defaultImportAction,
+} from '../utils/importUtils';
+import type {
+  ImportTable, ImportMapping, ImportPreset, ImportTarget, ImportDiff, ImportAction
+} from '../utils/importUtils';
+import { usePermissions } from '../hooks/usePermissions';
+
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const CAMPAIGNS = ['Invite to Connect', 'Solicitation Campaign'];
+
+// Row fields entered once and applied to every imported week
+type DetailField = 'agent' | 'campaign' | 'status' | 'audience' | 'defyLead' | 'location' | 'message' | 'target';
+
+// The parts of an existing row needed to overwrite it
+interface MatchedRow {
+  id: string;
+  version: string;
+  rowIndex: number;
+}
+
+const STATUS_BADGES: Record<ImportDiff<MatchedRow>['status'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-emerald-100 text-emerald-700' },
+  identical: { label: 'Already imported', className: 'bg-slate-100 text-slate-600' },
+  conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-700' },
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  add: 'Add as new row',
+  overwrite: 'Overwrite existing row',
+  skip: 'Skip',
+};
+
+// Overwriting a row that already holds the same values would change nothing, and
+// overwriting needs edit rights on every field that differs
+const actionsFor = (diff: ImportDiff<MatchedRow>, canEditField: (field: string) => boolean): ImportAction[] =>
+  diff.status === 'new' ? ['add', 'skip']
+    : diff.status === 'identical' || diff.differences.some(({ field }) => !canEditField(field)) ? ['skip', 'add']
+      : ['skip', 'overwrite', 'add'];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || fallback : fallback;
+
+interface MetricsImportWizardProps {
+  agents: string[];
+  audiences: string[];
+  // `complete` is false when a write failed partway; the wizard then stays open with the error
+  onImported: (count: number, complete: boolean) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500';
+
+const targetLabel = (target: ImportTarget) => IMPORT_TARGETS.find(t => t.key === target)?.label ?? target;
+
+const MetricsImportWizard: React.FC<MetricsImportWizardProps> = ({ agents, audiences, onImported, onClose }) => {
+  const permissions = usePermissions();
+  const [step, setStep] = useState<1 | 2 | 3 | 4>(1);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [layoutName, setLayoutName] = useState<string | null>(null);
+  const [unknownHeaders, setUnknownHeaders] = useState<string[]>([]);
+  const [weekEndDay, setWeekEndDay] = useState(0);
+  const [presets, setPresets] = useState<ImportPreset[]>(loadImportPresets);
+  const [presetName, setPresetName] = useState('');
+  const [details, setDetails] = useState<Partial<Record<DetailField, string>>>({});
+  // Used when the file has no date column
+  const [manualWeekEnd, setManualWeekEnd] = useState('');
+  // Dry run result for each week, and what to do with it
+  const [diffs, setDiffs] = useState<ImportDiff<MatchedRow>[]>([]);
+  const [actions, setActions] = useState<ImportAction[]>([]);
+  const [reading, setReading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { weeks, skippedRows } = table
+    ? buildImportWeeks(table, mapping, weekEndDay)
+    : { weeks: [], skippedRows: 0 };
+  const missing = missingTargets(mapping);
+  const hasDates = !missing.includes('date');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setReading(true);
+      setError(null);
+      const parsed = await readImportFile(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('No data rows found in that file');
+        return;
+      }
+
+      const detected = detectLayout(parsed.headers, presets);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(detected.mapping);
+      setLayoutName(detected.layoutName);
+      setUnknownHeaders(detected.unknown);
+      setWeekEndDay(latestWeekday(parsed, detected.mapping) ?? 0);
+      setStep(2);
+    } catch (err: unknown) {
+      console.error('Error reading import file:', err);
+      setError('Could not read that file. Upload a CSV or XLSX export.');
+    } finally {
+      setReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const updateMapping = (header: string, target: ImportTarget) => {
+    const next = { ...mapping, [header]: target };
+    setMapping(next);
+    setLayoutName(null);
+    // A newly mapped date column decides the default week end
+    if (target === 'date' && table) setWeekEndDay(latestWeekday(table, next) ?? weekEndDay);
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset || !table) return;
+    const next = Object.fromEntries(Object.keys(mapping).map(header => [header, preset.mapping[header] ?? mapping[header]]));
+    setMapping(next);
+    setLayoutName(preset.name);
+    setWeekEndDay(latestWeekday(table, next) ?? weekEndDay);
+  };
+
+  // Save the current mapping so files with these columns are recognized next time
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = [{ name, mapping }, ...presets.filter(p => p.name !== name)];
+    saveImportPresets(next);
+    setPresets(next);
+    setLayoutName(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (name: string) => {
+    const next = presets.filter(p => p.name !== name);
+    saveImportPresets(next);
+    setPresets(next);
+  };
+
+  const updateDetail = (field: DetailField, value: string) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Rows as they would be sent to /metrics/add
+  const importRows = () => weeks.map(week => ({ ...details, ...week.values, weekEnd: week.weekEnd || manualWeekEnd }));
+
+  // Dry run: compare each week with the existing rows before anything is written
+  const handlePreview = async () => {
+    if (!details.agent || !details.campaign) {
+      setError('Select an agent and campaign');
+      return;
+    }
+    if (!hasDates && !manualWeekEnd) {
+      setError('Enter the week end date');
+      return;
+    }
+
+    try {
+      setChecking(true);
+      setError(null);
+      const response = await axios.post(`${API_URL}/metrics/import-preview`, { rows: importRows() });
+      const result: ImportDiff<MatchedRow>[] = response.data.rows;
+      setDiffs(result);
+      setActions(result.map(diff => defaultImportAction(diff.status)));
+      setStep(4);
+    } catch (err: unknown) {
+      console.error('Error previewing import:', err);
+      setError(errorMessage(err, 'Failed to check for existing weeks'));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Write the weeks oldest first. Stops at the first failure and marks the weeks already
+  // written as skipped, so a retry carries on from the failed week.
+  const handleImport = async () => {
+    const rows = importRows();
+    const pending = diffs.filter(diff => actions[diff.index] !== 'skip');
+
+    let written = 0;
+    try {
+      setSaving(true);
+      setError(null);
+      for (const diff of pending) {
+        if (actions[diff.index] === 'overwrite' && diff.match) {
+          await axios.post(`${API_URL}/metrics/update`, {
+            id: diff.match.id,
+            version: diff.match.version,
+            changes: Object.fromEntries(diff.differences.map(({ field, incoming }) => [field, incoming])),
+          });
+        } else {
+          await axios.post(`${API_URL}/metrics/add`, { data: rows[diff.index] });
+        }
+        written++;
+      }
+      onImported(written, true);
+    } catch (err: unknown) {
+      console.error('Error importing metrics:', err);
+      const reason = errorMessage(err, 'Failed to import week');
+      setError(written > 0 ? `Imported ${written} of ${pending.length} weeks, then: ${reason}` : reason);
+      if (written > 0) {
+        const done = new Set(pending.slice(0, written).map(diff => diff.index));
+        setActions(prev => prev.map((action, index) => (done.has(index) ? 'skip' : action)));
+        onImported(written, false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const writeCount = actions.filter(action => action !== 'skip').length;
+
+  const sampleValue = (index: number) => table?.rows.find(row => row[index])?.[index] ?? '';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        {/* Modal Header */}
+        <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center">
+                <FileSpreadsheet className="w-6 h-6" />
+              </div>
+              <div>
+                <h4 className="font-bold text-lg">Import Campaign Data</h4>
+                <p className="text-white/80 text-sm">Step {step} of 4</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+          {/* Progress Bar */}
+          <div className="flex gap-2 mt-4">
+            {[1, 2, 3, 4].map((s) => (
+              <div
+                key={s}
+                className={`flex-1 h-1.5 rounded-full transition-all ${s <= step ? 'bg-white' : 'bg-white/30'}`}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Modal Content */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+              <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Step 1: Upload File */}
+          {step === 1 && (
+            <>
+              <div>
+                <h5 className="font-bold text-[#1b1e4c] mb-1">Upload Export</h5>
+                <p className="text-sm text-slate-500">
+                  Daily or weekly activity from your outreach tool, as CSV or Excel
+                </p>
+              </div>
+
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDragging(true);
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDragging(false);
+                  handleFile(e.dataTransfer.files[0]);
+                }}
+                className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-all ${
+                  dragging ? 'border-purple-400 bg-purple-50' : 'border-purple-200 hover:border-purple-400 hover:bg-purple-50'
+                }`}
+              >
+                {reading ? (
+                  <Loader2 className="w-12 h-12 text-purple-400 mx-auto mb-3 animate-spin" />
+                ) : (
+                  <Upload className="w-12 h-12 text-purple-400 mx-auto mb-3" />
+                )}
+                <p className="font-medium text-[#1b1e4c]">Click to upload a file</p>
+                <p className="text-sm text-slate-500 mt-1">or drag and drop</p>
+                <p className="text-xs text-slate-400 mt-2">Supports: .csv, .xlsx</p>
+              </div>
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="hidden"
+              />
+
+              {presets.length > 0 && (
+                <div className="bg-slate-50 rounded-xl p-4">
+                  <h6 className="font-medium text-slate-700 text-sm mb-2">Saved column presets</h6>
+                  <div className="flex flex-wrap gap-2">
+                    {presets.map(preset => (
+                      <span key={preset.name} className="inline-flex items-center gap-1 px-2 py-1 bg-white rounded text-xs text-slate-600 border border-slate-200">
+                        {preset.name}
+                        <button
+                          onClick={() => handleDeletePreset(preset.name)}
+                          className="text-slate-400 hover:text-red-500"
+                          title="Delete preset"
+                        >
+                          <Trash2 size={10} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Step 2: Map Columns & Review Weeks */}
+          {step === 2 && table && (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h5 className="font-bold text-[#1b1e4c] mb-1">Map Columns</h5>
+                  <p className="text-sm text-slate-500">
+                    {fileName} • {layoutName
+                      ? <span className="text-purple-600 font-medium">{layoutName} layout</span>
+                      : <span className="text-amber-600 font-medium">Unrecognized layout</span>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setStep(1)}
+                  className="flex items-center gap-1 text-sm text-slate-600 hover:text-[#1b1e4c]"
+                >
+                  <ArrowLeft size={16} />
+                  Back
+                </button>
+              </div>
+
+              {presets.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => applyPreset(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Apply a saved preset...</option>
+                  {presets.map(preset => (
+                    <option key={preset.name} value={preset.name}>{preset.name}</option>
+                  ))}
+                </select>
+              )}
+
+              <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+                {table.headers.map((header, index) => {
+                  const key = normalizeHeader(header);
+                  const unknown = unknownHeaders.includes(key) && mapping[key] === 'ignore';
+                  return (
+                    <div key={`${header}-${index}`} className={`flex items-center gap-3 p-3 ${unknown ? 'bg-amber-50' : ''}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-[#1b1e4c] truncate">{header}</p>
+                        <p className="text-xs text-slate-400 truncate">
+                          {unknown ? 'Unknown column' : 'e.g.'} {sampleValue(index) || '—'}
+                        </p>
+                      </div>
+                      <ArrowRight size={14} className="text-slate-300 flex-shrink-0" />
+                      <select
+                        value={mapping[key] ?? 'ignore'}
+                        onChange={(e) => updateMapping(key, e.target.value as ImportTarget)}
+                        className="w-40 px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30"
+                      >
+                        {IMPORT_TARGETS.map(target => (
+                          <option key={target.key} value={target.key}>{target.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {missing.length > 0 && (
+                <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-700">
+                  <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+                  <span>
+                    No column mapped to {missing.map(targetLabel).join(', ')}.
+                    {!hasDates && ' The file is imported as a single week.'}
+                  </span>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Save this mapping as..."
+                  className={inputClass}
+                />
+                <button
+                  onClick={handleSavePreset}
+                  disabled={!presetName.trim()}
+                  className="flex items-center gap-1 px-3 py-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors text-sm disabled:opacity-50 flex-shrink-0"
+                >
+                  <Save size={14} />
+                  Save preset
+                </button>
+              </div>
+
+              {/* Week Preview */}
+              <div className="bg-gradient-to-br from-purple-50 to-white rounded-xl p-4 border border-purple-100">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <span className="flex items-center gap-2 font-medium text-purple-700 text-sm">
+                    <CalendarDays size={16} />
+                    {weeks.length} week{weeks.length === 1 ? '' : 's'} found
+                  </span>
+                  {hasDates && (
+                    <label className="flex items-center gap-2 text-xs text-slate-600">
+                      Weeks end on
+                      <select
+                        value={weekEndDay}
+                        onChange={(e) => setWeekEndDay(Number(e.target.value))}
+                        className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs"
+                      >
+                        {WEEKDAYS.map((day, index) => (
+                          <option key={day} value={index}>{day}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {weeks.map(week => (
+                    <div key={week.weekEnd || 'single'} className="bg-white rounded-lg p-3 border border-slate-100 text-xs">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="font-medium text-[#1b1e4c]">
+                          {week.weekEnd ? `W.End ${week.weekEnd}` : 'Week end set in the next step'}
+                        </span>
+                        <span className="text-slate-400">
+                          {week.firstDay && `${week.firstDay} - ${week.lastDay} • `}{week.rowCount} row{week.rowCount === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                      <p className="text-slate-600">
+                        {Object.entries(week.values).map(([field, value]) => `${targetLabel(field as ImportTarget)}: ${value}`).join(' • ') || 'No counts mapped'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                {skippedRows > 0 && (
+                  <p className="text-xs text-amber-600 mt-2">
+                    {skippedRows} row{skippedRows === 1 ? '' : 's'} skipped because the date could not be read
+                  </p>
+                )}
+              </div>
+
+              <button
+                onClick={() => setStep(3)}
+                disabled={weeks.length === 0}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue
+                <ArrowRight size={18} />
+              </button>
+            </>
+          )}
+
+          {/* Step 3: Row Details */}
+          {step === 3 && (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h5 className="font-bold text-[#1b1e4c] mb-1">Complete Details</h5>
+                  <p className="text-sm text-slate-500">Applied to all {weeks.length} week{weeks.length === 1 ? '' : 's'}</p>
+                </div>
+                <button
+                  onClick={() => setStep(2)}
+                  className="flex items-center gap-1 text-sm text-slate-600 hover:text-[#1b1e4c]"
+                >
+                  <ArrowLeft size={16} />
+                  Back
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Agent *</label>
+                  <select value={details.agent || ''} onChange={(e) => updateDetail('agent', e.target.value)} className={inputClass}>
+                    <option value="">Select Agent...</option>
+                    {agents.map(agent => (
+                      <option key={agent} value={agent}>{agent}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Campaign *</label>
+                  <select value={details.campaign || ''} onChange={(e) => updateDetail('campaign', e.target.value)} className={inputClass}>
+                    <option value="">Select Campaign...</option>
+                    {CAMPAIGNS.map(campaign => (
+                      <option key={campaign} value={campaign}>{campaign}</option>
+                    ))}
+                  </select>
+                </div>
+                {!hasDates && (
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Week End Date *</label>
+                    <input
+                      type="date"
+                      value={manualWeekEnd}
+                      onChange={(e) => setManualWeekEnd(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Status</label>
+                  <select value={details.status || ''} onChange={(e) => updateDetail('status', e.target.value)} className={inputClass}>
+                    <option value="">Select Status</option>
+                    <option value="Active">Active</option>
+                    <option value="Not Active">Not Active</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Audience</label>
+                  <select value={details.audience || ''} onChange={(e) => updateDetail('audience', e.target.value)} className={inputClass}>
+                    <option value="">Select Audience</option>
+                    {audiences.map(audience => (
+                      <option key={audience} value={audience}>{audience}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Defy Lead</label>
+                  <input
+                    type="text"
+                    value={details.defyLead || ''}
+                    onChange={(e) => updateDetail('defyLead', e.target.value)}
+                    placeholder="Enter lead name..."
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Location</label>
+                  <input
+                    type="text"
+                    value={details.location || ''}
+                    onChange={(e) => updateDetail('location', e.target.value)}
+                    placeholder="e.g., USA, Global"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Message</label>
+                  <input
+                    type="text"
+                    value={details.message || ''}
+                    onChange={(e) => updateDetail('message', e.target.value)}
+                    placeholder="Message template..."
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Target</label>
+                  <input
+                    type="text"
+                    value={details.target || ''}
+                    onChange={(e) => updateDetail('target', e.target.value)}
+                    placeholder="Target audience..."
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <button
+                onClick={handlePreview}
+                disabled={checking || !details.agent || !details.campaign}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {checking ? <Loader2 size={18} className="animate-spin" /> : <Copy size={18} />}
+                {checking ? 'Checking...' : 'Check for existing weeks'}
+              </button>
+            </>
+          )}
+
+          {/* Step 4: Review Against Existing Rows */}
+          {step === 4 && (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h5 className="font-bold text-[#1b1e4c] mb-1">Review Import</h5>
+                  <p className="text-sm text-slate-500">
+                    {(['new', 'identical', 'conflict'] as const)
+                      .map(status => `${diffs.filter(diff => diff.status === status).length} ${STATUS_BADGES[status].label.toLowerCase()}`)
+                      .join(' • ')}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setStep(3)}
+                  className="flex items-center gap-1 text-sm text-slate-600 hover:text-[#1b1e4c]"
+                >
+                  <ArrowLeft size={16} />
+                  Back
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {diffs.map(diff => (
+                  <div key={diff.index} className="rounded-xl p-3 border border-slate-100 text-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-medium text-[#1b1e4c] truncate">
+                          W.End {weeks[diff.index]?.weekEnd || manualWeekEnd}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${STATUS_BADGES[diff.status].className}`}>
+                          {STATUS_BADGES[diff.status].label}
+                        </span>
+                        {diff.match && (
+                          <span className="text-xs text-slate-400 flex-shrink-0">row {diff.match.rowIndex}</span>
+                        )}
+                      </div>
+                      <select
+                        value={actions[diff.index]}
+                        onChange={(e) => setActions(prev => prev.map((action, index) => (
+                          index === diff.index ? e.target.value as ImportAction : action
+                        )))}
+                        className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-purple-500/30"
+                      >
+                        {actionsFor(diff, permissions.canEditField).map(action => (
+                          <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {diff.differences.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {diff.differences.map(({ field, current, incoming }) => (
+                          <li key={field} className="text-xs text-slate-600 flex items-center gap-1.5 flex-wrap">
+                            <span className="font-medium">{targetLabel(field as ImportTarget)}:</span>
+                            <span className="line-through text-slate-400">{current || '—'}</span>
+                            <ArrowRight size={12} className="text-slate-400" />
+                            <span className="text-[#1b1e4c]">{incoming}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={saving || writeCount === 0}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? <Loader2 size={18} className="animate-spin" /> : <Check size={18} />}
+                {saving ? 'Importing...' : `Import ${writeCount} week${writeCount === 1 ? '' : 's'}`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetricsImportWizard;
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { GitMerge, X, Loader2, AlertCircle } from 'lucide-react';
+
+interface MergeField<T> {
+  key: keyof T & string;
+  label: string;
+}
+
+interface MetricsMergeDialogProps<T> {
+  rowLabel: string;
+  // Fields both sides changed, and fields only the other person changed
+  conflicts: MergeField<T>[];
+  theirs: MergeField<T>[];
+  base: T;
+  mine: Partial<T>;
+  current: T;
+  saving: boolean;
+  // Called with the conflicting fields whose local value should win
+  onResolve: (keepMine: (keyof T & string)[]) => void;
+  onCancel: () => void;
+}
+
+const display = (value: unknown) => (value === undefined || value === '' ? '—' : String(value));
+
+function MetricsMergeDialog<T>({
+  rowLabel,
+  conflicts,
+  theirs,
+  base,
+  mine,
+  current,
+  saving,
+  onResolve,
+  onCancel,
+}: MetricsMergeDialogProps<T>) {
+  // Local edits win by default; each conflicting field can be switched to the stored value
+  const [keepMine, setKeepMine] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(conflicts.map(field => [field.key, true]))
+  );
+
+  const choiceClass = (selected: boolean) =>
+    `flex-1 text-left px-3 py-2 rounded-xl border text-sm transition-colors ${
+      selected
+        ? 'border-[#13BCC5] bg-[#13BCC5]/10 text-[#1b1e4c]'
+        : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-2xl shadow-2xl overflow-hidden">
+        <div className="bg-gradient-to-r from-amber-500 to-amber-600 p-6 text-white">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center">
+                <GitMerge className="w-6 h-6" />
+              </div>
+              <div>
+                <h4 className="font-bold text-lg">Resolve Conflicting Edits</h4>
+                <p className="text-white/80 text-sm">{rowLabel} was changed by someone else while you were editing</p>
+              </div>
+            </div>
+            <button
+              onClick={onCancel}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {conflicts.map(field => (
+            <div key={field.key}>
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="font-medium text-[#1b1e4c] text-sm">{field.label}</span>
+                <span className="text-xs text-slate-400">was: {display(base[field.key])}</span>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setKeepMine(prev => ({ ...prev, [field.key]: true }))}
+                  className={choiceClass(keepMine[field.key])}
+                >
+                  <span className="block text-xs text-slate-400 mb-0.5">Your version</span>
+                  {display(mine[field.key])}
+                </button>
+                <button
+                  onClick={() => setKeepMine(prev => ({ ...prev, [field.key]: false }))}
+                  className={choiceClass(!keepMine[field.key])}
+                >
+                  <span className="block text-xs text-slate-400 mb-0.5">Their version</span>
+                  {display(current[field.key])}
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {theirs.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-slate-50 rounded-xl text-sm text-slate-600">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-slate-400" />
+              <span>
+                Also updated by them and kept as is:{' '}
+                {theirs.map(field => `${field.label} (${display(current[field.key])})`).join(', ')}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 pt-0">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 text-slate-600 bg-slate-100 rounded-xl hover:bg-slate-200 transition-colors font-medium"
+          >
+            Discard My Changes
+          </button>
+          <button
+            onClick={() => onResolve(conflicts.filter(field => keepMine[field.key]).map(field => field.key))}
+            disabled={saving}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-[#13BCC5] text-white rounded-xl hover:bg-[#0FA8B0] transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Merged Row
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MetricsMergeDialog;
@@ -14,16 +14,23 @@ import {
   Activity,
   TrendingUp,
   FileText,
-  Clock
+  Clock,
+  KeyRound,
+  AlertCircle
 } from 'lucide-react';
+import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+const MIN_PASSWORD_LENGTH = 8;
+
 interface ProfilePageProps {
   onBack: () => void;
 }
 
 const ProfilePage: React.FC<ProfilePageProps> = ({ onBack: _onBack }) => {
-  const { user } = useAuth();
+  const { user, renewSession } = useAuth();
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -39,6 +46,50 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ onBack: _onBack }) => {
     joinDate: '2025-01-15',
   });
 
+  // Change password form state
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordSuccess, setPasswordSuccess] = useState<string | null>(null);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError(null);
+    setPasswordSuccess(null);
+
+    const { currentPassword, newPassword, confirmPassword } = passwordForm;
+    if (!currentPassword || !newPassword) {
+      setPasswordError('Please fill in all password fields');
+      return;
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`New password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError('New passwords do not match');
+      return;
+    }
+
+    try {
+      setChangingPassword(true);
+      const response = await axios.post(`${API_URL}/auth/change-password`, { currentPassword, newPassword });
+      // The change signs out every earlier session, this one included
+      renewSession(response.data.token, response.data.expiresAt);
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setPasswordSuccess('Password changed successfully!');
+      setTimeout(() => setPasswordSuccess(null), 3000);
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err)) {
+        setPasswordError(err.response?.data?.error || 'Failed to change password');
+      } else {
+        setPasswordError('Failed to change password');
+      }
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
   const handleSave = () => {
     setSaving(true);
     setTimeout(() => {
@@ -282,6 +333,74 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ onBack: _onBack }) => {
             </div>
           </div>
 
+          {/* Change Password */}
+          <form onSubmit={handleChangePassword} className="bg-white rounded-2xl border border-slate-100 p-6">
+            <h3 className="font-bold text-[#1b1e4c] mb-6 flex items-center gap-2">
+              <KeyRound size={18} />
+              Change Password
+            </h3>
+
+            {passwordError && (
+              <div className="mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span>{passwordError}</span>
+              </div>
+            )}
+
+            {passwordSuccess && (
+              <div className="mb-4 flex items-center gap-2 p-3 bg-emerald-50 border border-emerald-200 rounded-xl text-emerald-700 text-sm">
+                <Check size={16} className="flex-shrink-0" />
+                <span>{passwordSuccess}</span>
+              </div>
+            )}
+
+            <div className="grid md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Current Password</label>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={passwordForm.currentPassword}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+                  className="w-full px-4 py-2.5 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">New Password</label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwordForm.newPassword}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+                  className="w-full px-4 py-2.5 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Confirm New Password</label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwordForm.confirmPassword}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+                  className="w-full px-4 py-2.5 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <button
+                type="submit"
+                disabled={changingPassword}
+                className="flex items-center gap-2 px-6 py-2 bg-[#13BCC5] text-white rounded-xl hover:bg-[#0FA8B0] transition-colors disabled:opacity-50"
+              >
+                {changingPassword ? <RefreshCw size={18} className="animate-spin" /> : <KeyRound size={18} />}
+                {changingPassword ? 'Updating...' : 'Update Password'}
+              </button>
+            </div>
+          </form>
+
           {/* Recent Activity */}
           <div className="bg-white rounded-2xl border border-slate-100 p-6">
             <h3 className="font-bold text-[#1b1e4c] mb-6 flex items-center gap-2">
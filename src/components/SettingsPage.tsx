@@ -15,9 +15,16 @@ import {
   Smartphone,
   Zap,
   AlertCircle,
-  ExternalLink
+  ExternalLink,
+  Users,
+  ScrollText
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useNavigation } from '../context/NavigationContext';
+import { usePermissions } from '../hooks/usePermissions';
+import UserManagement from './UserManagement';
+import AuditLog from './AuditLog';
+import { loadSettings, saveSettings } from '../utils/settings';
 
 interface SettingsPageProps {
   onBack: () => void;
@@ -25,31 +32,14 @@ interface SettingsPageProps {
 
 const SettingsPage: React.FC<SettingsPageProps> = ({ onBack: _onBack }) => {
   const { user } = useAuth();
+  const { navigateTo } = useNavigation();
+  const permissions = usePermissions();
   const [activeSection, setActiveSection] = useState('general');
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
 
   // Settings state
-  const [settings, setSettings] = useState({
-    // General
-    language: 'en',
-    timezone: 'America/New_York',
-    dateFormat: 'MM/DD/YYYY',
-    // Notifications
-    emailNotifications: true,
-    pushNotifications: true,
-    weeklyDigest: true,
-    alertsOnNewContent: true,
-    alertsOnMetrics: false,
-    // Appearance
-    theme: 'light',
-    compactMode: false,
-    showAnimations: true,
-    // Data
-    autoRefresh: true,
-    refreshInterval: 30,
-    cacheEnabled: true,
-  });
+  const [settings, setSettings] = useState(loadSettings);
 
   const handleSave = () => {
     setSaving(true);
@@ -57,7 +47,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onBack: _onBack }) => {
     setTimeout(() => {
       setSaving(false);
       setSaved(true);
-      localStorage.setItem('defy_settings', JSON.stringify(settings));
+      saveSettings(settings);
       setTimeout(() => setSaved(false), 2000);
     }, 1000);
   };
@@ -68,6 +58,8 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onBack: _onBack }) => {
     { id: 'appearance', label: 'Appearance', icon: <Palette size={18} /> },
     { id: 'data', label: 'Data & Sync', icon: <Database size={18} /> },
     { id: 'security', label: 'Security', icon: <Shield size={18} /> },
+    ...(permissions.manageUsers ? [{ id: 'users', label: 'Users', icon: <Users size={18} /> }] : []),
+    ...(permissions.viewAuditLog ? [{ id: 'audit', label: 'Audit Log', icon: <ScrollText size={18} /> }] : []),
   ];
 
   return (
@@ -211,7 +203,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onBack: _onBack }) => {
                   />
                   <ToggleSetting
                     label="Metrics Alerts"
-                    description="Alert when metrics reach certain thresholds"
+                    description="Flag sudden drops in an agent's weekly invites, acceptance or reply rate"
                     checked={settings.alertsOnMetrics}
                     onChange={(val) => setSettings({ ...settings, alertsOnMetrics: val })}
                   />
@@ -351,7 +343,10 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onBack: _onBack }) => {
                 </div>
 
                 <div className="space-y-4">
-                  <button className="w-full flex items-center justify-between p-4 bg-slate-50 rounded-xl hover:bg-slate-100 transition-colors">
+                  <button
+                    onClick={() => navigateTo('profile')}
+                    className="w-full flex items-center justify-between p-4 bg-slate-50 rounded-xl hover:bg-slate-100 transition-colors"
+                  >
                     <div className="flex items-center gap-3">
                       <Shield size={18} className="text-slate-500" />
                       <div className="text-left">
@@ -392,6 +387,16 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ onBack: _onBack }) => {
                 </div>
               </div>
             )}
+
+            {/* User Management (admin only) */}
+            {activeSection === 'users' && permissions.manageUsers && (
+              <UserManagement />
+            )}
+
+            {/* Audit Log (admin only) */}
+            {activeSection === 'audit' && permissions.viewAuditLog && (
+              <AuditLog />
+            )}
           </div>
         </div>
       </div>
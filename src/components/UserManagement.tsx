@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Users,
+  UserPlus,
+  KeyRound,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  X
+} from 'lucide-react';
+import axios from 'axios';
+import { useAuth } from '../context/AuthContext';
+import type { User } from '../types/auth';
+
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+const ROLE_OPTIONS: { value: User['role']; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+// Temporary password shown once after an invite or reset
+interface IssuedPassword {
+  email: string;
+  temporaryPassword: string;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (axios.isAxiosError(err)) {
+    return err.response?.data?.error || fallback;
+  }
+  return fallback;
+};
+
+const UserManagement: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyEmail, setBusyEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [issuedPassword, setIssuedPassword] = useState<IssuedPassword | null>(null);
+
+  // Invite form state
+  const [showInviteForm, setShowInviteForm] = useState(false);
+  const [invite, setInvite] = useState<{ email: string; name: string; role: User['role'] }>({
+    email: '',
+    name: '',
+    role: 'viewer',
+  });
+  const [inviting, setInviting] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await axios.get(`${API_URL}/users`);
+      setUsers(response.data);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to load users'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(fetchUsers, 0);
+    return () => clearTimeout(timeoutId);
+  }, [fetchUsers]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setInviting(true);
+      setError(null);
+      const response = await axios.post(`${API_URL}/users/invite`, invite);
+      setUsers(prev => [...prev, response.data.user]);
+      setIssuedPassword({ email: response.data.user.email, temporaryPassword: response.data.temporaryPassword });
+      setInvite({ email: '', name: '', role: 'viewer' });
+      setShowInviteForm(false);
+      showSuccess(`Invited ${response.data.user.email}`);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to invite user'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleUpdate = async (email: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>>) => {
+    try {
+      setBusyEmail(email);
+      setError(null);
+      const response = await axios.post(`${API_URL}/users/update`, { email, changes });
+      setUsers(prev => prev.map(u => (u.email === email ? response.data.user : u)));
+      showSuccess(`Updated ${email}`);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to update user'));
+    } finally {
+      setBusyEmail(null);
+    }
+  };
+
+  const handleResetPassword = async (email: string) => {
+    if (!window.confirm(`Reset the password for ${email}? Their current password will stop working.`)) return;
+
+    try {
+      setBusyEmail(email);
+      setError(null);
+      const response = await axios.post(`${API_URL}/users/reset-password`, { email });
+      setIssuedPassword({ email, temporaryPassword: response.data.temporaryPassword });
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to reset password'));
+    } finally {
+      setBusyEmail(null);
+    }
+  };
+
+  const isSelf = (email: string) => email.toLowerCase() === currentUser?.email.toLowerCase();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-[#1b1e4c] flex items-center gap-2">
+          <Users size={20} />
+          User Management
+        </h3>
+        <button
+          onClick={() => setShowInviteForm(!showInviteForm)}
+          className="flex items-center gap-2 px-4 py-2 bg-[#13BCC5] text-white rounded-xl hover:bg-[#0FA8B0] transition-colors text-sm"
+        >
+          <UserPlus size={16} />
+          Invite User
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+          <AlertCircle size={16} className="flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="flex items-center gap-2 p-3 bg-emerald-50 border border-emerald-200 rounded-xl text-emerald-700 text-sm">
+          <CheckCircle2 size={16} className="flex-shrink-0" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {/* Temporary password - shown once */}
+      {issuedPassword && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="font-medium text-amber-800">Temporary password for {issuedPassword.email}</p>
+              <p className="text-sm text-amber-700 mt-1">
+                Share it securely. It will not be shown again - ask them to change it from their profile.
+              </p>
+              <div className="mt-3 flex items-center gap-2">
+                <code className="px-3 py-1.5 bg-white border border-amber-200 rounded-lg text-sm font-mono">
+                  {issuedPassword.temporaryPassword}
+                </code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(issuedPassword.temporaryPassword)}
+                  className="p-2 text-amber-700 hover:bg-amber-100 rounded-lg transition-colors"
+                  title="Copy to clipboard"
+                >
+                  <Copy size={14} />
+                </button>
+              </div>
+            </div>
+            <button
+              onClick={() => setIssuedPassword(null)}
+              className="p-1 text-amber-700 hover:bg-amber-100 rounded-lg transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Invite Form */}
+      {showInviteForm && (
+        <form onSubmit={handleInvite} className="bg-slate-50 rounded-xl p-4 grid md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Email</label>
+            <input
+              type="email"
+              required
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Name</label>
+            <input
+              type="text"
+              required
+              value={invite.name}
+              onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Role</label>
+            <select
+              value={invite.role}
+              onChange={(e) => setInvite({ ...invite, role: e.target.value as User['role'] })}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+            >
+              {ROLE_OPTIONS.map(role => (
+                <option key={role.value} value={role.value}>{role.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={inviting}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-[#13BCC5] text-white rounded-lg hover:bg-[#0FA8B0] transition-colors disabled:opacity-50 text-sm"
+          >
+            {inviting ? <Loader2 size={16} className="animate-spin" /> : <UserPlus size={16} />}
+            Send Invite
+          </button>
+        </form>
+      )}
+
+      {/* Users Table */}
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-[#13BCC5] animate-spin" />
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-8">No users found in the Users sheet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                <th className="py-2 pr-4 font-medium">User</th>
+                <th className="py-2 pr-4 font-medium">Role</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {users.map(u => (
+                <tr key={u.email} className={u.active ? '' : 'opacity-60'}>
+                  <td className="py-3 pr-4">
+                    <p className="font-medium text-[#1b1e4c]">
+                      {u.name}
+                      {isSelf(u.email) && <span className="ml-2 text-xs text-slate-400">(you)</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">{u.email}</p>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <select
+                      value={u.role}
+                      disabled={busyEmail === u.email || isSelf(u.email)}
+                      onChange={(e) => handleUpdate(u.email, { role: e.target.value as User['role'] })}
+                      className="px-2 py-1 border border-slate-200 rounded-lg text-sm disabled:bg-slate-50 disabled:text-slate-400"
+                    >
+                      {ROLE_OPTIONS.map(role => (
+                        <option key={role.value} value={role.value}>{role.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      u.active ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'
+                    }`}>
+                      {u.active ? 'Active' : 'Deactivated'}
+                    </span>
+                  </td>
+                  <td className="py-3">
+                    <div className="flex items-center justify-end gap-2">
+                      {busyEmail === u.email && <Loader2 size={14} className="animate-spin text-slate-400" />}
+                      <button
+                        onClick={() => handleResetPassword(u.email)}
+                        disabled={busyEmail === u.email}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <KeyRound size={12} />
+                        Reset Password
+                      </button>
+                      {!isSelf(u.email) && (
+                        <button
+                          onClick={() => handleUpdate(u.email, { active: !u.active })}
+                          disabled={busyEmail === u.email}
+                          className={`px-2 py-1 text-xs rounded-lg transition-colors disabled:opacity-50 ${
+                            u.active ? 'text-red-600 hover:bg-red-50' : 'text-emerald-600 hover:bg-emerald-50'
+                          }`}
+                        >
+                          {u.active ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
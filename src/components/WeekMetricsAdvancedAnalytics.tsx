@@ -13,35 +13,15 @@ import {
   MessageSquare, Percent, Star, Medal,
   Crown, Info
 } from 'lucide-react';
-
-interface WeekMetric {
-  id: string;
-  rowIndex: number;
-  status: string;
-  campaign: string;
-  message: string;
-  audience: string;
-  agent: string;
-  acceptanceRate: string;
-  replies: string;
-  replyPercent: string;
-  defyLead: string;
-  target: string;
-  algoType: string;
-  weekEnd: string;
-  location: string;
-  queue: string;
-  totalInvited: string;
-  totalAccepted: string;
-  netNewConnects: string;
-  startingConnects: string;
-  endingConnections: string;
-  totalMessaged: string;
-  totalActions: string;
-}
+import {
+  sumMetrics, aggregateBy, agentPerformance as rankAgents, metricTrend
+} from '../../shared/analytics.js';
+import { forecastSeries } from '../../shared/forecast.js';
+import type { AnalyticsRow, ScoreTierKey } from '../../shared/analytics.js';
+import { formatNumber } from '../utils/metricsUtils';
 
 interface WeekMetricsAdvancedAnalyticsProps {
-  metrics: WeekMetric[];
+  metrics: AnalyticsRow[];
 }
 
 // Color palette
@@ -60,63 +40,12 @@ const COLORS = {
 
 const CHART_COLORS = ['#13BCC5', '#8B5CF6', '#F59E0B', '#10B981', '#EC4899', '#3B82F6', '#6366F1'];
 
-// Parse number utility
-const parseNum = (val: string): number => {
-  const num = parseFloat(val?.replace(/[^0-9.-]/g, '') || '0');
-  return isNaN(num) ? 0 : num;
-};
-
-// Format large numbers
-const formatNumber = (num: number): string => {
-  if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
-  if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
-  return num.toFixed(0);
-};
-
-// Calculate trend (simple linear regression)
-const calculateTrend = (data: number[]): { slope: number; direction: 'up' | 'down' | 'stable' } => {
-  if (data.length < 2) return { slope: 0, direction: 'stable' };
-
-  const n = data.length;
-  const sumX = data.reduce((s, _, i) => s + i, 0);
-  const sumY = data.reduce((s, v) => s + v, 0);
-  const sumXY = data.reduce((s, v, i) => s + i * v, 0);
-  const sumX2 = data.reduce((s, _, i) => s + i * i, 0);
-
-  const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-
-  if (Math.abs(slope) < 0.5) return { slope, direction: 'stable' };
-  return { slope, direction: slope > 0 ? 'up' : 'down' };
-};
-
-// Predict next value using linear regression
-const predictNext = (data: number[], periods: number = 1): number => {
-  if (data.length < 2) return data[data.length - 1] || 0;
-
-  const { slope } = calculateTrend(data);
-  const lastValue = data[data.length - 1];
-  return Math.max(0, lastValue + slope * periods);
-};
-
-// Performance score calculation (0-100)
-const calculatePerformanceScore = (
-  acceptanceRate: number,
-  replyRate: number,
-  inviteVolume: number,
-  avgVolume: number
-): number => {
-  const acceptScore = Math.min(acceptanceRate / 30 * 40, 40); // 30% = max 40 points
-  const replyScore = Math.min(replyRate / 10 * 30, 30); // 10% = max 30 points
-  const volumeScore = Math.min((inviteVolume / Math.max(avgVolume, 1)) * 30, 30); // relative volume = max 30 points
-  return Math.round(acceptScore + replyScore + volumeScore);
-};
-
-// Get performance tier
-const getPerformanceTier = (score: number): { tier: string; color: string; icon: React.ReactNode } => {
-  if (score >= 80) return { tier: 'Elite', color: 'text-purple-600 bg-purple-100', icon: <Crown size={16} /> };
-  if (score >= 60) return { tier: 'Strong', color: 'text-emerald-600 bg-emerald-100', icon: <Medal size={16} /> };
-  if (score >= 40) return { tier: 'Average', color: 'text-amber-600 bg-amber-100', icon: <Star size={16} /> };
-  return { tier: 'Needs Work', color: 'text-red-600 bg-red-100', icon: <AlertTriangle size={16} /> };
+// Badge style of each score tier
+const TIER_STYLES: Record<ScoreTierKey, { color: string; icon: React.ReactNode }> = {
+  elite: { color: 'text-purple-600 bg-purple-100', icon: <Crown size={16} /> },
+  strong: { color: 'text-emerald-600 bg-emerald-100', icon: <Medal size={16} /> },
+  average: { color: 'text-amber-600 bg-amber-100', icon: <Star size={16} /> },
+  weak: { color: 'text-red-600 bg-red-100', icon: <AlertTriangle size={16} /> },
 };
 
 const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps> = ({ metrics }) => {
@@ -187,209 +116,48 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
       return null;
     }
 
-    // Basic totals
-    const totalInvited = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalInvited), 0);
-    const totalAccepted = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalAccepted), 0);
-    const totalReplies = filteredMetrics.reduce((sum, m) => sum + parseNum(m.replies), 0);
-    const totalMessaged = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalMessaged), 0);
-    const totalNetNewConnects = filteredMetrics.reduce((sum, m) => sum + parseNum(m.netNewConnects), 0);
-    const totalActions = filteredMetrics.reduce((sum, m) => sum + parseNum(m.totalActions), 0);
-
-    // Network totals
-    const latestMetricsByAgent = new Map<string, WeekMetric>();
-    filteredMetrics.forEach(m => {
-      if (m.agent && m.endingConnections) {
-        const existing = latestMetricsByAgent.get(m.agent);
-        if (!existing || new Date(m.weekEnd) > new Date(existing.weekEnd)) {
-          latestMetricsByAgent.set(m.agent, m);
-        }
-      }
-    });
-
-    const totalNetworkSize = Array.from(latestMetricsByAgent.values())
-      .reduce((sum, m) => sum + parseNum(m.endingConnections), 0);
-
-    // Averages
-    const avgAcceptanceRate = totalInvited > 0 ? (totalAccepted / totalInvited) * 100 : 0;
-    const avgReplyRate = totalMessaged > 0 ? (totalReplies / totalMessaged) * 100 : 0;
-    const avgInvitesPerWeek = totalInvited / Math.max(uniqueValues.dates.length, 1);
-
-    // Weekly trends data
-    const weeklyData = new Map<string, {
-      invited: number;
-      accepted: number;
-      replies: number;
-      messaged: number;
-      netNew: number;
-      acceptanceRate: number;
-      replyRate: number;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (m.weekEnd) {
-        const existing = weeklyData.get(m.weekEnd) || {
-          invited: 0, accepted: 0, replies: 0, messaged: 0, netNew: 0, acceptanceRate: 0, replyRate: 0
-        };
-        existing.invited += parseNum(m.totalInvited);
-        existing.accepted += parseNum(m.totalAccepted);
-        existing.replies += parseNum(m.replies);
-        existing.messaged += parseNum(m.totalMessaged);
-        existing.netNew += parseNum(m.netNewConnects);
-        weeklyData.set(m.weekEnd, existing);
-      }
-    });
-
-    // Calculate rates for each week
-    weeklyData.forEach((data) => {
-      data.acceptanceRate = data.invited > 0 ? (data.accepted / data.invited) * 100 : 0;
-      data.replyRate = data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0;
-    });
-
-    const weeklyTrends = Array.from(weeklyData.entries())
-      .map(([week, data]) => ({ week, ...data }))
-      .sort((a, b) => new Date(a.week).getTime() - new Date(b.week).getTime());
-
-    // Monthly aggregation
-    const monthlyData = new Map<string, {
-      invited: number;
-      accepted: number;
-      replies: number;
-      messaged: number;
-      netNew: number;
-      weeks: number;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (m.weekEnd) {
-        const date = new Date(m.weekEnd);
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        const existing = monthlyData.get(monthKey) || {
-          invited: 0, accepted: 0, replies: 0, messaged: 0, netNew: 0, weeks: 0
-        };
-        existing.invited += parseNum(m.totalInvited);
-        existing.accepted += parseNum(m.totalAccepted);
-        existing.replies += parseNum(m.replies);
-        existing.messaged += parseNum(m.totalMessaged);
-        existing.netNew += parseNum(m.netNewConnects);
-        existing.weeks += 1;
-        monthlyData.set(monthKey, existing);
-      }
-    });
-
-    const monthlyTrends = Array.from(monthlyData.entries())
-      .map(([month, data]) => ({
-        month,
-        ...data,
-        acceptanceRate: data.invited > 0 ? (data.accepted / data.invited) * 100 : 0,
-        replyRate: data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0,
-        avgInvitedPerWeek: data.invited / Math.max(data.weeks, 1),
-      }))
-      .sort((a, b) => a.month.localeCompare(b.month));
+    const totals = sumMetrics(filteredMetrics);
+    const avgAcceptanceRate = totals.acceptanceRate;
+    const avgReplyRate = totals.replyRate;
+    const avgInvitesPerWeek = totals.invited / Math.max(totals.weeks, 1);
+
+    const weeklyTrends = aggregateBy(filteredMetrics, 'week').map(({ key, ...data }) => ({ week: key, ...data }));
+
+    const monthlyTrends = aggregateBy(filteredMetrics, 'month').map(({ key, ...data }) => ({
+      month: key,
+      ...data,
+      avgInvitedPerWeek: data.invited / Math.max(data.weeks, 1),
+    }));
 
     // Best month analysis
     const bestMonth = monthlyTrends.length > 0
       ? monthlyTrends.reduce((best, curr) => curr.invited > best.invited ? curr : best)
       : null;
 
-    // Agent performance analysis
-    const agentData = new Map<string, {
-      invited: number;
-      accepted: number;
-      replies: number;
-      messaged: number;
-      netNew: number;
-      weeks: number;
-      latestNetwork: number;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (m.agent) {
-        const existing = agentData.get(m.agent) || {
-          invited: 0, accepted: 0, replies: 0, messaged: 0, netNew: 0, weeks: 0, latestNetwork: 0
-        };
-        existing.invited += parseNum(m.totalInvited);
-        existing.accepted += parseNum(m.totalAccepted);
-        existing.replies += parseNum(m.replies);
-        existing.messaged += parseNum(m.totalMessaged);
-        existing.netNew += parseNum(m.netNewConnects);
-        existing.weeks += 1;
-        const network = parseNum(m.endingConnections);
-        if (network > existing.latestNetwork) existing.latestNetwork = network;
-        agentData.set(m.agent, existing);
-      }
-    });
-
-    const agentPerformance = Array.from(agentData.entries())
-      .map(([agent, data]) => {
-        const acceptanceRate = data.invited > 0 ? (data.accepted / data.invited) * 100 : 0;
-        const replyRate = data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0;
-        const score = calculatePerformanceScore(acceptanceRate, replyRate, data.invited, avgInvitesPerWeek * data.weeks);
-        const tier = getPerformanceTier(score);
-        return {
-          agent,
-          ...data,
-          acceptanceRate,
-          replyRate,
-          score,
-          tier,
-        };
-      })
-      .sort((a, b) => b.score - a.score);
-
-    // Campaign performance
-    const campaignData = new Map<string, {
-      invited: number;
-      accepted: number;
-      replies: number;
-      messaged: number;
-    }>();
-
-    filteredMetrics.forEach(m => {
-      if (m.campaign) {
-        const existing = campaignData.get(m.campaign) || {
-          invited: 0, accepted: 0, replies: 0, messaged: 0
-        };
-        existing.invited += parseNum(m.totalInvited);
-        existing.accepted += parseNum(m.totalAccepted);
-        existing.replies += parseNum(m.replies);
-        existing.messaged += parseNum(m.totalMessaged);
-        campaignData.set(m.campaign, existing);
-      }
-    });
-
-    const campaignPerformance = Array.from(campaignData.entries())
-      .map(([campaign, data]) => ({
-        campaign,
-        ...data,
-        acceptanceRate: data.invited > 0 ? (data.accepted / data.invited) * 100 : 0,
-        replyRate: data.messaged > 0 ? (data.replies / data.messaged) * 100 : 0,
-      }))
-      .sort((a, b) => b.invited - a.invited);
-
-    // Location distribution
-    const locationData = new Map<string, number>();
-    filteredMetrics.forEach(m => {
-      if (m.location) {
-        locationData.set(m.location, (locationData.get(m.location) || 0) + parseNum(m.totalInvited));
-      }
-    });
+    const agentPerformance = rankAgents(filteredMetrics).map(({ key, ...data }) => ({ agent: key, ...data }));
 
-    const locationDistribution = Array.from(locationData.entries())
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
+    const campaignPerformance = aggregateBy(filteredMetrics, 'campaign').map(({ key, ...data }) => ({ campaign: key, ...data }));
 
-    // Trend analysis
-    const invitedTrend = calculateTrend(weeklyTrends.map(w => w.invited));
-    const acceptanceTrend = calculateTrend(weeklyTrends.map(w => w.acceptanceRate));
-    const replyTrend = calculateTrend(weeklyTrends.map(w => w.replyRate));
+    const locationDistribution = aggregateBy(filteredMetrics, 'location').map(group => ({ name: group.key, value: group.invited }));
 
-    // Predictions (next 4 weeks)
+    // Trend analysis
+    const invitedTrend = metricTrend(weeklyTrends.map(w => w.invited));
+    const acceptanceTrend = metricTrend(weeklyTrends.map(w => w.acceptanceRate));
+    const replyTrend = metricTrend(weeklyTrends.map(w => w.replyRate));
+
+    // Predictions (next 4 weeks), from the same models as the insurance view
+    const forecast = (values: number[], options?: { min?: number; max?: number }) =>
+      forecastSeries(values, 4, options).points.map(point => point.value);
+    const invitedForecast = forecast(weeklyTrends.map(w => w.invited));
+    const acceptedForecast = forecast(weeklyTrends.map(w => w.accepted));
     const predictions = {
-      nextWeekInvites: predictNext(weeklyTrends.map(w => w.invited)),
-      nextWeekAccepted: predictNext(weeklyTrends.map(w => w.accepted)),
-      nextMonthInvites: predictNext(weeklyTrends.map(w => w.invited), 4),
-      projectedNetworkGrowth: predictNext(weeklyTrends.map(w => w.netNew), 4),
-      expectedAcceptanceRate: predictNext(weeklyTrends.map(w => w.acceptanceRate)),
+      invitedForecast,
+      acceptedForecast,
+      nextWeekInvites: invitedForecast[0],
+      nextWeekAccepted: acceptedForecast[0],
+      nextMonthInvites: invitedForecast.reduce((sum, value) => sum + value, 0),
+      projectedNetworkGrowth: forecast(weeklyTrends.map(w => w.netNew)).reduce((sum, value) => sum + value, 0),
+      expectedAcceptanceRate: forecast(weeklyTrends.map(w => w.acceptanceRate), { max: 100 })[0],
     };
 
     // Generate insights
@@ -423,8 +191,8 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
     }
 
     // Network growth insights
-    if (totalNetNewConnects > 0) {
-      const growthRate = totalNetworkSize > 0 ? (totalNetNewConnects / totalNetworkSize) * 100 : 0;
+    if (totals.netNew > 0) {
+      const growthRate = totals.networkSize > 0 ? (totals.netNew / totals.networkSize) * 100 : 0;
       if (growthRate >= 5) {
         insights.push({ type: 'success', message: `Network growing at ${growthRate.toFixed(1)}% - healthy expansion!`, priority: 2 });
       }
@@ -450,15 +218,7 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
     }
 
     return {
-      totals: {
-        invited: totalInvited,
-        accepted: totalAccepted,
-        replies: totalReplies,
-        messaged: totalMessaged,
-        netNew: totalNetNewConnects,
-        actions: totalActions,
-        networkSize: totalNetworkSize,
-      },
+      totals,
       rates: {
         acceptance: avgAcceptanceRate,
         reply: avgReplyRate,
@@ -479,7 +239,7 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
       insights: insights.sort((a, b) => a.priority - b.priority),
       recommendations,
     };
-  }, [filteredMetrics, uniqueValues.dates.length]);
+  }, [filteredMetrics]);
 
   if (!analytics || metrics.length === 0) {
     return (
@@ -972,16 +732,16 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <p className="font-semibold text-[#1b1e4c] truncate">{agent.agent}</p>
-                      <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${agent.tier.color}`}>
-                        {agent.tier.icon}
-                        {agent.tier.tier}
+                      <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${TIER_STYLES[agent.tier.key].color}`}>
+                        {TIER_STYLES[agent.tier.key].icon}
+                        {agent.tier.label}
                       </span>
                     </div>
                     <div className="flex items-center gap-4 mt-1 text-xs text-slate-500">
                       <span>{formatNumber(agent.invited)} invited</span>
                       <span>{agent.acceptanceRate.toFixed(1)}% accept</span>
                       <span>{agent.replyRate.toFixed(1)}% reply</span>
-                      <span>{formatNumber(agent.latestNetwork)} network</span>
+                      <span>{formatNumber(agent.networkSize)} network</span>
                     </div>
                   </div>
 
@@ -1023,7 +783,7 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
                     { metric: 'Invited', ...Object.fromEntries(analytics.agentPerformance.slice(0, 5).map(a => [a.agent, Math.min(a.invited / 1000, 100)])) },
                     { metric: 'Accept %', ...Object.fromEntries(analytics.agentPerformance.slice(0, 5).map(a => [a.agent, a.acceptanceRate])) },
                     { metric: 'Reply %', ...Object.fromEntries(analytics.agentPerformance.slice(0, 5).map(a => [a.agent, a.replyRate * 3])) },
-                    { metric: 'Network', ...Object.fromEntries(analytics.agentPerformance.slice(0, 5).map(a => [a.agent, Math.min(a.latestNetwork / 100, 100)])) },
+                    { metric: 'Network', ...Object.fromEntries(analytics.agentPerformance.slice(0, 5).map(a => [a.agent, Math.min(a.networkSize / 100, 100)])) },
                     { metric: 'Score', ...Object.fromEntries(analytics.agentPerformance.slice(0, 5).map(a => [a.agent, a.score])) },
                   ]}>
                     <PolarGrid stroke="#e2e8f0" />
@@ -1110,8 +870,8 @@ const WeekMetricsAdvancedAnalytics: React.FC<WeekMetricsAdvancedAnalyticsProps>
                   // Add predicted weeks
                   ...[1, 2, 3, 4].map((i) => ({
                     week: `Forecast +${i}w`,
-                    invited: predictNext(analytics.weeklyTrends.map(w => w.invited), i),
-                    accepted: predictNext(analytics.weeklyTrends.map(w => w.accepted), i),
+                    invited: analytics.predictions.invitedForecast[i - 1],
+                    accepted: analytics.predictions.acceptedForecast[i - 1],
                     isPrediction: true,
                   }))
                 ]}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import {
   TrendingUp,
   Save,
@@ -27,13 +27,29 @@ import {
   Filter,
   Search,
   Upload,
-  FileSpreadsheet,
-  FileCheck
+  History,
+  Undo2,
+  Archive,
+  ArchiveRestore,
+  Calculator
 } from 'lucide-react';
-import { useAuth } from '../context/AuthContext';
+import { usePermissions } from '../hooks/usePermissions';
+import { useLiveUpdates, applyLiveChange } from '../hooks/useLiveUpdates';
+import type { LiveChange } from '../hooks/useLiveUpdates';
 import WeekMetricsAdvancedAnalytics from './WeekMetricsAdvancedAnalytics';
 import InsuranceDataAnalytics from './InsuranceDataAnalytics';
 import AISummary from './AISummary';
+import MetricsMergeDialog from './MetricsMergeDialog';
+import MetricHistoryDrawer from './MetricHistoryDrawer';
+import MetricsBulkEditBar from './MetricsBulkEditBar';
+import MetricsImportWizard from './MetricsImportWizard';
+import type { BulkFailure } from './MetricsBulkEditBar';
+import { findMergeConflicts } from '../utils/metricsUtils';
+import { validateMetricFields, validateNewMetric, REQUIRED_METRIC_FIELDS } from '../../shared/metricsSchema.js';
+import type { MetricFieldErrors } from '../../shared/metricsSchema.js';
+import type { MetricsColumn } from '../../shared/metrics.js';
+import { DERIVED_FIELDS, deriveMetricFields } from '../../shared/derivedMetrics.js';
+import type { DerivedField } from '../../shared/derivedMetrics.js';
 import axios from 'axios';
 
 // Default agents list
@@ -112,6 +128,7 @@ const INSURANCE_AUDIENCES = [
 interface WeekMetric {
   id: string;
   rowIndex: number;
+  version: string;
   status: string;
   campaign: string;
   message: string;
@@ -133,6 +150,49 @@ interface WeekMetric {
   endingConnections: string;
   totalMessaged: string;
   totalActions: string;
+  // When the row was archived; blank while active
+  archivedAt: string;
+  // Derived columns whose stored value disagrees with the raw counts
+  derivedMismatches: DerivedField[];
+}
+
+type MetricFieldKey = keyof WeekMetric & string;
+
+const DERIVED_FIELD_KEYS = Object.keys(DERIVED_FIELDS) as DerivedField[];
+const isDerivedField = (key: string): key is DerivedField => DERIVED_FIELD_KEYS.includes(key as DerivedField);
+
+// Campaign setup fields that can be set on many rows at once
+type BulkFieldKey = 'status' | 'campaign' | 'queue' | 'location';
+const BULK_FIELDS: BulkFieldKey[] = ['status', 'campaign', 'queue', 'location'];
+
+// Result of one row in a /metrics/batch response
+interface BatchResult {
+  id: string;
+  ok: boolean;
+  metric?: WeekMetric;
+  error?: string;
+  current?: WeekMetric;
+}
+
+const rowLabel = (metric: WeekMetric) => metric.campaign || metric.agent || `Row ${metric.rowIndex}`;
+
+// Per-field messages carried by a 400 from the metrics API
+const fieldErrorsFrom = (err: unknown): MetricFieldErrors | undefined =>
+  axios.isAxiosError(err) && err.response?.status === 400 ? err.response.data?.fieldErrors : undefined;
+
+// A save rejected because the row changed after editing started
+interface MergeConflict {
+  base: WeekMetric;
+  mine: Partial<WeekMetric>;
+  current: WeekMetric;
+  conflicts: MetricFieldKey[];
+  theirs: MetricFieldKey[];
+}
+
+// The most recent save, with the values it replaced
+interface LastSave {
+  metric: WeekMetric;
+  previous: Partial<WeekMetric>;
 }
 
 interface WeekMetricsFormProps {
@@ -141,8 +201,13 @@ interface WeekMetricsFormProps {
 
 const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
 
+// Polling interval while the live update stream is down
+const METRICS_POLL_INTERVAL = 30000;
+
+// How long "Undo last save" stays available after a save
+const UNDO_WINDOW = 15000;
+
 const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
-  const { user } = useAuth();
   const [metrics, setMetrics] = useState<WeekMetric[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -150,9 +215,20 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
   const [success, setSuccess] = useState<string | null>(null);
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const [editedMetrics, setEditedMetrics] = useState<Record<string, Partial<WeekMetric>>>({});
+  // Row as it was when editing started - its version is sent with the save
+  const [editBases, setEditBases] = useState<Record<string, WeekMetric>>({});
+  const [mergeConflict, setMergeConflict] = useState<MergeConflict | null>(null);
+  // Field errors the server reported for a row's last save, until it is edited again
+  const [serverFieldErrors, setServerFieldErrors] = useState<Record<string, MetricFieldErrors>>({});
+  const [lastSave, setLastSave] = useState<LastSave | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [historyMetricId, setHistoryMetricId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkFailures, setBulkFailures] = useState<BulkFailure[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [newMetric, setNewMetric] = useState<Partial<WeekMetric>>({});
   const [activeView, setActiveView] = useState<'data' | 'analytics' | 'insurance'>('insurance');
+  const [showArchived, setShowArchived] = useState(false);
 
   // Agent filter state
   const [selectedAgent, setSelectedAgent] = useState<string>('all');
@@ -182,37 +258,29 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
   const [addLeadValue, setAddLeadValue] = useState('');
   const [addLeadSaving, setAddLeadSaving] = useState(false);
 
-  // CSV Upload state
+  // Import wizard
   const [showUploadModal, setShowUploadModal] = useState(false);
-  const [uploadStep, setUploadStep] = useState<1 | 2 | 3>(1);
-  const [csvData, setCsvData] = useState<{
-    totalInvited: number;
-    totalAccepted: number;
-    totalMessaged: number;
-    replies: number;
-    acceptanceRate: string;
-    replyPercent: string;
-    weekEnd: string;
-    dateRange: string;
-    missingColumns: string[];
-    foundColumns: string[];
-  } | null>(null);
-  const [uploadedFileName, setUploadedFileName] = useState('');
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const isAdmin = user?.role === 'admin';
+
+  const permissions = usePermissions();
+  const canManageAgents = permissions.canEditField('agent');
+
+  // Archived rows are left out of every view unless asked for
+  const activeMetrics = useMemo(
+    () => (showArchived ? metrics : metrics.filter(m => !m.archivedAt)),
+    [metrics, showArchived]
+  );
 
   // Get rows for selected agent in Add Lead modal
   const agentRows = useMemo(() => {
     if (!addLeadAgent) return [];
     return metrics.filter(m =>
-      m.agent?.toLowerCase().includes(addLeadAgent.toLowerCase())
+      !m.archivedAt && m.agent?.toLowerCase().includes(addLeadAgent.toLowerCase())
     );
   }, [metrics, addLeadAgent]);
 
   // Get unique dates from metrics for date filter dropdown
   const uniqueDates = useMemo(() => {
-    const dates = metrics
+    const dates = activeMetrics
       .map(m => m.weekEnd)
       .filter(Boolean)
       .filter((date, index, self) => self.indexOf(date) === index)
@@ -223,11 +291,11 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
         return dateB.getTime() - dateA.getTime();
       });
     return dates;
-  }, [metrics]);
+  }, [activeMetrics]);
 
   // Filter metrics based on selected agent AND date
   const filteredMetrics = useMemo(() => {
-    let filtered = metrics;
+    let filtered = activeMetrics;
 
     // Filter by agent
     if (selectedAgent !== 'all') {
@@ -243,7 +311,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
     }
 
     return filtered;
-  }, [metrics, selectedAgent, selectedDate]);
+  }, [activeMetrics, selectedAgent, selectedDate]);
 
   // Save agents to localStorage when changed
   useEffect(() => {
@@ -334,317 +402,282 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
     setAddLeadValue('');
   };
 
-  // Reset Upload Modal
-  const resetUploadModal = () => {
-    setShowUploadModal(false);
-    setUploadStep(1);
-    setCsvData(null);
-    setUploadedFileName('');
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  // Refresh after the import wizard adds rows
+  // A failed import keeps the wizard open on its error; the weeks it wrote are still loaded
+  const handleImported = (count: number, complete: boolean) => {
+    if (complete) {
+      setShowUploadModal(false);
+      setSuccess(`Imported ${count} week${count === 1 ? '' : 's'} successfully!`);
+      setTimeout(() => setSuccess(null), 3000);
     }
+    fetchMetrics();
+    onRefresh();
   };
 
-  // Parse CSV line handling quoted fields with commas
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
+  // Handle Add Lead submission
+  const handleAddLeadSubmit = async () => {
+    if (!addLeadSelectedRow || !addLeadValue.trim()) return;
+
+    try {
+      setAddLeadSaving(true);
+      setError(null);
+
+      const response = await axios.post(`${API_URL}/metrics/update`, {
+        id: addLeadSelectedRow.id,
+        version: addLeadSelectedRow.version,
+        changes: { defyLead: addLeadValue.trim() },
+      });
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
+      // Update local state
+      const saved: WeekMetric = response.data.metric;
+      setMetrics(prev => prev.map(m => m.id === saved.id ? saved : m));
 
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
+      setSuccess(`Lead "${addLeadValue}" added successfully for ${addLeadAgent}!`);
+      setTimeout(() => setSuccess(null), 3000);
+      resetAddLeadModal();
+      onRefresh();
+    } catch (err: unknown) {
+      console.error('Error adding lead:', err);
+      if (axios.isAxiosError(err)) {
+        setError(err.response?.data?.error || 'Failed to add lead');
       } else {
-        current += char;
+        setError('Failed to add lead');
       }
+    } finally {
+      setAddLeadSaving(false);
     }
-    result.push(current.trim());
-
-    return result;
   };
 
-  // Parse CSV file
-  const parseCSV = (csvText: string) => {
-    const lines = csvText.trim().split('\n');
-    if (lines.length < 2) return null;
-
-    // Parse headers using proper CSV parsing
-    const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/"/g, '').trim());
-
-    // Find column indices and track which columns are found/missing
-    const expectedColumns = ['invited', 'accepted', 'messaged', 'replied', 'start_date', 'end_date'];
-    const foundColumns: string[] = [];
-    const missingColumns: string[] = [];
-
-    const invitedIdx = headers.findIndex(h => h === 'invited');
-    const acceptedIdx = headers.findIndex(h => h === 'accepted');
-    const messagedIdx = headers.findIndex(h => h === 'messaged');
-    const repliedIdx = headers.findIndex(h => h === 'replied');
-    const startDateIdx = headers.findIndex(h => h === 'start_date');
-    const endDateIdx = headers.findIndex(h => h === 'end_date');
-
-    // Track found and missing columns
-    expectedColumns.forEach(col => {
-      const idx = headers.findIndex(h => h === col);
-      if (idx >= 0) {
-        foundColumns.push(col);
-      } else {
-        missingColumns.push(col);
-      }
-    });
+  // All fields in the sheet - edit access comes from the role permission matrix
+  const allFields: { key: MetricFieldKey; label: string }[] = [
+    { key: 'status', label: 'Status' },
+    { key: 'campaign', label: 'Campaign' },
+    { key: 'message', label: 'Message' },
+    { key: 'audience', label: 'Audience' },
+    { key: 'agent', label: 'Agent' },
+    { key: 'acceptanceRate', label: 'Accept %' },
+    { key: 'replies', label: 'Replies' },
+    { key: 'replyPercent', label: 'Reply %' },
+    { key: 'defyLead', label: 'Defy Lead' },
+    { key: 'target', label: 'Target' },
+    { key: 'algoType', label: 'Algo Type' },
+    { key: 'weekEnd', label: 'W. End' },
+    { key: 'location', label: 'Location' },
+    { key: 'queue', label: 'Queue' },
+    { key: 'totalInvited', label: 'Invited' },
+    { key: 'totalAccepted', label: 'Accepted' },
+    { key: 'netNewConnects', label: 'Net Connects' },
+    { key: 'startingConnects', label: 'Start Connects' },
+    { key: 'endingConnections', label: 'End Connects' },
+    { key: 'totalMessaged', label: 'Messaged' },
+    { key: 'totalActions', label: 'Actions' },
+  ];
 
-    // Sum up all daily values
-    let totalInvited = 0;
-    let totalAccepted = 0;
-    let totalMessaged = 0;
-    let totalReplied = 0;
-    let firstDate = '';
-    let lastDate = '';
+  // Fetch metrics on mount
+  useEffect(() => {
+    fetchMetrics();
+  }, []);
 
-    for (let i = 1; i < lines.length; i++) {
-      // Skip empty lines
-      if (!lines[i].trim()) continue;
+  // Merge rows changed by other users as they are pushed
+  const handleLiveChange = useCallback((change: LiveChange) => {
+    if (change.collection !== 'metrics') return;
+    setMetrics(prev => applyLiveChange(prev, change as LiveChange<WeekMetric>));
+  }, []);
 
-      const values = parseCSVLine(lines[i]);
+  const liveConnected = useLiveUpdates(handleLiveChange);
 
-      if (invitedIdx >= 0 && values[invitedIdx]) {
-        totalInvited += parseInt(values[invitedIdx]) || 0;
-      }
-      if (acceptedIdx >= 0 && values[acceptedIdx]) {
-        totalAccepted += parseInt(values[acceptedIdx]) || 0;
-      }
-      if (messagedIdx >= 0 && values[messagedIdx]) {
-        totalMessaged += parseInt(values[messagedIdx]) || 0;
-      }
-      if (repliedIdx >= 0 && values[repliedIdx]) {
-        totalReplied += parseInt(values[repliedIdx]) || 0;
-      }
+  // Poll quietly (no loading state) while the stream is down
+  useEffect(() => {
+    if (liveConnected) return;
 
-      // Track first and last dates
-      if (!firstDate && startDateIdx >= 0 && values[startDateIdx]) {
-        firstDate = values[startDateIdx];
-      }
-      if (endDateIdx >= 0 && values[endDateIdx]) {
-        lastDate = values[endDateIdx];
+    const pollMetrics = async () => {
+      try {
+        const response = await axios.get(`${API_URL}/metrics`);
+        setMetrics(response.data);
+      } catch (err) {
+        console.error('Error polling metrics:', err);
       }
-    }
-
-    // Calculate rates
-    // Acceptance Rate = accepted / invited
-    const acceptanceRate = totalInvited > 0
-      ? ((totalAccepted / totalInvited) * 100).toFixed(1) + '%'
-      : '0%';
+    };
 
-    // Reply Percent = replied / messaged (NOT replied / invited!)
-    const replyPercent = totalMessaged > 0
-      ? ((totalReplied / totalMessaged) * 100).toFixed(1) + '%'
-      : '0%';
+    const interval = setInterval(pollMetrics, METRICS_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [liveConnected]);
 
-    // Format week end date (use last date)
-    let weekEnd = '';
-    if (lastDate) {
-      try {
-        // Handle various date formats: MM/DD/YYYY, YYYY-MM-DD, etc.
-        const dateStr = lastDate.replace(/"/g, '').trim();
-
-        if (dateStr.includes('/')) {
-          const dateParts = dateStr.split('/');
-          if (dateParts.length === 3) {
-            const month = dateParts[0].padStart(2, '0');
-            const day = dateParts[1].padStart(2, '0');
-            const year = dateParts[2].length === 2 ? '20' + dateParts[2] : dateParts[2];
-            weekEnd = `${year}-${month}-${day}`;
-          }
-        } else if (dateStr.includes('-')) {
-          // Already in YYYY-MM-DD format
-          weekEnd = dateStr;
-        } else {
-          weekEnd = dateStr;
-        }
-      } catch {
-        weekEnd = lastDate;
-      }
+  const fetchMetrics = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get(`${API_URL}/metrics`);
+      setMetrics(response.data);
+    } catch (err) {
+      console.error('Error fetching metrics:', err);
+      setError('Failed to load week metrics. Make sure the server is running.');
+    } finally {
+      setLoading(false);
     }
+  };
 
-    return {
-      totalInvited,
-      totalAccepted,
-      totalMessaged,
-      replies: totalReplied,
-      acceptanceRate,
-      replyPercent,
-      weekEnd,
-      dateRange: `${firstDate} - ${lastDate}`,
-      foundColumns,
-      missingColumns,
-    };
+  const canEditField = (fieldKey: string) => {
+    if (!allFields.some(f => f.key === fieldKey)) return false;
+    return permissions.canEditField(fieldKey);
   };
 
-  // Handle CSV file upload
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setUploadedFileName(file.name);
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const parsed = parseCSV(text);
-
-      if (parsed) {
-        setCsvData(parsed);
-        // Pre-fill the newMetric with parsed data
-        setNewMetric(prev => ({
-          ...prev,
-          totalInvited: parsed.totalInvited.toString(),
-          totalAccepted: parsed.totalAccepted.toString(),
-          totalMessaged: parsed.totalMessaged.toString(),
-          replies: parsed.replies.toString(),
-          acceptanceRate: parsed.acceptanceRate,
-          replyPercent: parsed.replyPercent,
-          weekEnd: parsed.weekEnd,
-        }));
-        setUploadStep(2);
+  // Looked up on each render so the drawer always sees the row's current version
+  const historyMetric = metrics.find(m => m.id === historyMetricId) ?? null;
+
+  const bulkFields = allFields.filter(
+    (f): f is { key: BulkFieldKey; label: string } => BULK_FIELDS.includes(f.key as BulkFieldKey) && canEditField(f.key)
+  );
+  const canBulkEdit = permissions.bulkEdit && bulkFields.length > 0;
+  const bulkSuggestions = Object.fromEntries(BULK_FIELDS.map(key => [
+    key,
+    [...new Set(metrics.map(m => m[key]).filter(Boolean))].sort(),
+  ])) as Record<BulkFieldKey, string[]>;
+  const allShownSelected = filteredMetrics.length > 0 && filteredMetrics.every(m => selectedIds.has(m.id));
+
+  const toggleSelected = (metricId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(metricId)) {
+        next.delete(metricId);
       } else {
-        setError('Failed to parse CSV file. Please check the format.');
+        next.add(metricId);
       }
-    };
-    reader.onerror = () => {
-      setError('Failed to read file');
-    };
-    reader.readAsText(file);
+      return next;
+    });
   };
 
-  // Handle upload form submission
-  const handleUploadSubmit = async () => {
-    if (!csvData || !newMetric.campaign) {
-      setError('Please select a campaign type');
-      return;
-    }
+  const toggleSelectAllShown = () => {
+    setSelectedIds(allShownSelected ? new Set() : new Set(filteredMetrics.map(m => m.id)));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setBulkFailures([]);
+  };
+
+  // Set the same values on every selected row in one request. Rows that fail stay
+  // selected with their reason; rows that changed underneath are refreshed so a retry can go through.
+  const handleBulkApply = async (changes: Partial<Record<BulkFieldKey, string>>) => {
+    const rows = metrics.filter(m => selectedIds.has(m.id));
+    if (rows.length === 0) return;
 
     try {
       setSaving(true);
       setError(null);
+      setBulkFailures([]);
 
-      await axios.post(`${API_URL}/metrics/add`, {
-        data: newMetric,
-        userRole: user?.role,
+      const response = await axios.post(`${API_URL}/metrics/batch`, {
+        updates: rows.map(m => ({ id: m.id, version: m.version, changes })),
       });
-
-      setNewMetric({});
-      resetUploadModal();
-      setShowAddForm(false);
-      setSuccess('Data uploaded and row added successfully!');
-      setTimeout(() => setSuccess(null), 3000);
-      fetchMetrics();
-      onRefresh();
+      applyBatchResults(rows, response.data.results, 'Updated');
     } catch (err: unknown) {
-      console.error('Error adding metric from CSV:', err);
+      console.error('Error batch updating metrics:', err);
       if (axios.isAxiosError(err)) {
-        setError(err.response?.data?.error || 'Failed to add data');
+        setError(err.response?.data?.error || 'Failed to update rows');
       } else {
-        setError('Failed to add data');
+        setError('Failed to update rows');
       }
     } finally {
       setSaving(false);
     }
   };
 
-  // Handle Add Lead submission
-  const handleAddLeadSubmit = async () => {
-    if (!addLeadSelectedRow || !addLeadValue.trim()) return;
+  // Merge the rows a batch request returned and keep the failed ones selected with their reason
+  const applyBatchResults = (rows: WeekMetric[], results: BatchResult[], verb: string) => {
+    const refreshed = new Map<string, WeekMetric>();
+    for (const result of results) {
+      const metric = result.metric ?? result.current;
+      if (metric) refreshed.set(result.id, metric);
+    }
+    setMetrics(prev => prev.map(m => refreshed.get(m.id) ?? m));
+
+    const failed = results.filter(result => !result.ok);
+    setSelectedIds(new Set(failed.map(result => result.id)));
+    setBulkFailures(failed.map(result => {
+      const row = rows.find(m => m.id === result.id);
+      return { id: result.id, label: row ? rowLabel(row) : result.id, error: result.error || 'Update failed' };
+    }));
+
+    const changed = results.length - failed.length;
+    if (changed > 0) {
+      setSuccess(`${verb} ${changed} row${changed === 1 ? '' : 's'}`);
+      setTimeout(() => setSuccess(null), 3000);
+      onRefresh();
+    }
+  };
+
+  // Soft delete or restore rows. Archived rows keep their data and history and
+  // only show up with "Show archived" on.
+  const handleArchive = async (rows: WeekMetric[], archive: boolean) => {
+    const targets = rows.filter(m => Boolean(m.archivedAt) !== archive);
+    if (targets.length === 0) return;
+    if (archive && !window.confirm(
+      `Archive ${targets.length === 1 ? rowLabel(targets[0]) : `${targets.length} rows`}? Archived rows are hidden from the dashboard until restored.`
+    )) return;
 
     try {
-      setAddLeadSaving(true);
+      setSaving(true);
       setError(null);
+      setBulkFailures([]);
 
-      await axios.post(`${API_URL}/metrics/update`, {
-        rowIndex: addLeadSelectedRow.rowIndex,
-        changes: { defyLead: addLeadValue.trim() },
-        userRole: user?.role,
+      const response = await axios.post(`${API_URL}/metrics/${archive ? 'delete' : 'restore'}`, {
+        rows: targets.map(m => ({ id: m.id, version: m.version })),
       });
-
-      // Update local state
-      setMetrics(prev => prev.map(m =>
-        m.id === addLeadSelectedRow.id ? { ...m, defyLead: addLeadValue.trim() } : m
-      ));
-
-      setSuccess(`Lead "${addLeadValue}" added successfully for ${addLeadAgent}!`);
-      setTimeout(() => setSuccess(null), 3000);
-      resetAddLeadModal();
-      onRefresh();
+      applyBatchResults(targets, response.data.results, archive ? 'Archived' : 'Restored');
     } catch (err: unknown) {
-      console.error('Error adding lead:', err);
+      console.error('Error archiving metrics:', err);
       if (axios.isAxiosError(err)) {
-        setError(err.response?.data?.error || 'Failed to add lead');
+        setError(err.response?.data?.error || `Failed to ${archive ? 'archive' : 'restore'} rows`);
       } else {
-        setError('Failed to add lead');
+        setError(`Failed to ${archive ? 'archive' : 'restore'} rows`);
       }
     } finally {
-      setAddLeadSaving(false);
+      setSaving(false);
     }
   };
 
-  // All fields in the sheet
-  const allFields = [
-    { key: 'status', label: 'Status', adminOnly: true },
-    { key: 'campaign', label: 'Campaign', adminOnly: true },
-    { key: 'message', label: 'Message', adminOnly: true },
-    { key: 'audience', label: 'Audience', adminOnly: true },
-    { key: 'agent', label: 'Agent', adminOnly: true },
-    { key: 'acceptanceRate', label: 'Accept %', adminOnly: true },
-    { key: 'replies', label: 'Replies', adminOnly: true },
-    { key: 'replyPercent', label: 'Reply %', adminOnly: true },
-    { key: 'defyLead', label: 'Defy Lead', adminOnly: false }, // Everyone can edit
-    { key: 'target', label: 'Target', adminOnly: true },
-    { key: 'algoType', label: 'Algo Type', adminOnly: true },
-    { key: 'weekEnd', label: 'W. End', adminOnly: true },
-    { key: 'location', label: 'Location', adminOnly: true },
-    { key: 'queue', label: 'Queue', adminOnly: true },
-    { key: 'totalInvited', label: 'Invited', adminOnly: true },
-    { key: 'totalAccepted', label: 'Accepted', adminOnly: true },
-    { key: 'netNewConnects', label: 'Net Connects', adminOnly: true },
-    { key: 'startingConnects', label: 'Start Connects', adminOnly: true },
-    { key: 'endingConnections', label: 'End Connects', adminOnly: true },
-    { key: 'totalMessaged', label: 'Messaged', adminOnly: true },
-    { key: 'totalActions', label: 'Actions', adminOnly: true },
-  ];
+  const mismatchedRows = metrics.filter(m => m.derivedMismatches?.length > 0);
 
-  // Fetch metrics on mount
-  useEffect(() => {
-    fetchMetrics();
-  }, []);
+  // Rewrite every derived column that disagrees with its row's raw counts
+  const handleRecompute = async () => {
+    if (!window.confirm(
+      `Recompute acceptance rate, reply % and net new connects for ${mismatchedRows.length} row${mismatchedRows.length === 1 ? '' : 's'} whose stored values disagree with their counts?`
+    )) return;
 
-  const fetchMetrics = async () => {
     try {
-      setLoading(true);
+      setSaving(true);
       setError(null);
-      const response = await axios.get(`${API_URL}/metrics`);
-      setMetrics(response.data);
-    } catch (err) {
-      console.error('Error fetching metrics:', err);
-      setError('Failed to load week metrics. Make sure the server is running.');
+      setBulkFailures([]);
+
+      const response = await axios.post(`${API_URL}/metrics/recompute`);
+      applyBatchResults(mismatchedRows, response.data.results, 'Recomputed');
+    } catch (err: unknown) {
+      console.error('Error recomputing metrics:', err);
+      if (axios.isAxiosError(err)) {
+        setError(err.response?.data?.error || 'Failed to recompute rows');
+      } else {
+        setError('Failed to recompute rows');
+      }
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
-  const canEditField = (fieldKey: string) => {
-    const field = allFields.find(f => f.key === fieldKey);
-    if (!field) return false;
-    if (isAdmin) return true;
-    return !field.adminOnly;
-  };
+  const editableFields = allFields.filter(f => canEditField(f.key));
+  const canEditAllFields = editableFields.length === allFields.length;
+  const addableFields = allFields.filter(f => permissions.canAddField(f.key));
+  // Imported weeks are added as new rows holding every column; the wizard only offers
+  // to overwrite an existing row when the user may edit the fields that differ
+  const canUploadData = permissions.addRows && addableFields.length === allFields.length;
 
   const handleFieldChange = (metricId: string, field: string, value: string) => {
     if (!canEditField(field)) return;
 
+    const metric = metrics.find(m => m.id === metricId);
+    setEditBases(prev => (prev[metricId] || !metric ? prev : { ...prev, [metricId]: metric }));
+    clearServerErrors(metricId);
+
     setEditedMetrics(prev => ({
       ...prev,
       [metricId]: {
@@ -654,38 +687,93 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
     }));
   };
 
-  const handleSave = async (metricId: string) => {
-    const metric = metrics.find(m => m.id === metricId);
-    const changes = editedMetrics[metricId];
+  // Drop the pending edit of a row together with its base snapshot
+  const clearEdit = (metricId: string) => {
+    setEditedMetrics(prev => {
+      const newState = { ...prev };
+      delete newState[metricId];
+      return newState;
+    });
+    setEditBases(prev => {
+      const newState = { ...prev };
+      delete newState[metricId];
+      return newState;
+    });
+    clearServerErrors(metricId);
+  };
 
-    if (!metric || !changes || Object.keys(changes).length === 0) return;
+  const clearServerErrors = (metricId: string) => {
+    setServerFieldErrors(prev => {
+      if (!prev[metricId]) return prev;
+      const newState = { ...prev };
+      delete newState[metricId];
+      return newState;
+    });
+  };
 
+  // Derived columns of a row as they will be saved, from its stored and edited counts
+  const rowDerivedValues = (metric: WeekMetric) =>
+    deriveMetricFields({ ...metric, ...editedMetrics[metric.id] }, DERIVED_FIELD_KEYS);
+
+  // Inline errors of a row: its edited fields checked against the shared schema,
+  // plus whatever the server rejected on the last save
+  const rowFieldErrors = (metric: WeekMetric): MetricFieldErrors => {
+    const edited = editedMetrics[metric.id];
+    return {
+      ...serverFieldErrors[metric.id],
+      ...(edited ? validateMetricFields({ ...metric, ...edited }, Object.keys(edited)) : {}),
+    };
+  };
+
+  // Save changes made on top of `base`. A 409 carrying the stored row means someone
+  // else saved first: edits to different fields are reapplied on top of theirs,
+  // overlapping fields go to the merge dialog.
+  const submitUpdate = async (base: WeekMetric, changes: Partial<WeekMetric>): Promise<void> => {
     try {
       setSaving(true);
       setError(null);
 
-      await axios.post(`${API_URL}/metrics/update`, {
-        rowIndex: metric.rowIndex,
+      const response = await axios.post(`${API_URL}/metrics/update`, {
+        id: base.id,
+        version: base.version,
         changes: changes,
-        userRole: user?.role,
       });
 
       // Update local state
-      setMetrics(prev => prev.map(m =>
-        m.id === metricId ? { ...m, ...changes } : m
-      ));
-
-      // Clear edited state for this metric
-      setEditedMetrics(prev => {
-        const newState = { ...prev };
-        delete newState[metricId];
-        return newState;
-      });
-
-      setSuccess('Changes saved successfully!');
-      setTimeout(() => setSuccess(null), 3000);
+      const saved: WeekMetric = response.data.metric;
+      setMetrics(prev => prev.map(m => m.id === saved.id ? saved : m));
+      clearEdit(base.id);
+      setMergeConflict(null);
+
+      // Keep the replaced values so the save can be undone for a short while
+      const previous = Object.fromEntries(
+        Object.keys(changes).map(key => [key, base[key as MetricFieldKey]])
+      ) as Partial<WeekMetric>;
+      offerUndo({ metric: saved, previous });
       onRefresh();
     } catch (err: unknown) {
+      const current: WeekMetric | undefined = axios.isAxiosError(err) && err.response?.status === 409
+        ? err.response.data?.current
+        : undefined;
+
+      if (current) {
+        setMetrics(prev => prev.map(m => m.id === current.id ? current : m));
+        const { conflicts, theirs } = findMergeConflicts(allFields.map(f => f.key), base, changes, current);
+
+        if (conflicts.length === 0) {
+          setEditBases(prev => ({ ...prev, [base.id]: current }));
+          return await submitUpdate(current, changes);
+        }
+        setMergeConflict({ base, mine: changes, current, conflicts, theirs });
+        return;
+      }
+
+      const invalid = fieldErrorsFrom(err);
+      if (invalid) {
+        setServerFieldErrors(prev => ({ ...prev, [base.id]: invalid }));
+        setExpandedRow(base.id);
+      }
+
       console.error('Error saving metrics:', err);
       if (axios.isAxiosError(err)) {
         setError(err.response?.data?.error || 'Failed to save changes');
@@ -697,9 +785,101 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
     }
   };
 
+  const offerUndo = (save: LastSave | null) => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setLastSave(save);
+    undoTimerRef.current = save ? setTimeout(() => setLastSave(null), UNDO_WINDOW) : null;
+  };
+
+  // Write the replaced values back, unless someone has changed the row since
+  const handleUndo = async () => {
+    if (!lastSave) return;
+    const { metric, previous } = lastSave;
+    offerUndo(null);
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await axios.post(`${API_URL}/metrics/update`, {
+        id: metric.id,
+        version: metric.version,
+        changes: previous,
+      });
+
+      const restored: WeekMetric = response.data.metric;
+      setMetrics(prev => prev.map(m => m.id === restored.id ? restored : m));
+      setSuccess('Last save undone');
+      setTimeout(() => setSuccess(null), 3000);
+      onRefresh();
+    } catch (err: unknown) {
+      console.error('Error undoing save:', err);
+      const current: WeekMetric | undefined = axios.isAxiosError(err) && err.response?.status === 409
+        ? err.response.data?.current
+        : undefined;
+      if (current) {
+        setMetrics(prev => prev.map(m => m.id === current.id ? current : m));
+        setError('Could not undo - the row was changed again after your save');
+      } else if (axios.isAxiosError(err)) {
+        setError(err.response?.data?.error || 'Failed to undo save');
+      } else {
+        setError('Failed to undo save');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (metricId: string) => {
+    const base = editBases[metricId] ?? metrics.find(m => m.id === metricId);
+    const changes = editedMetrics[metricId];
+
+    if (!base || !changes || Object.keys(changes).length === 0) return;
+
+    // Invalid values stay local - their messages are shown next to the inputs
+    if (Object.keys(validateMetricFields({ ...base, ...changes }, Object.keys(changes))).length > 0) {
+      setExpandedRow(metricId);
+      setError('Please fix the highlighted fields before saving');
+      return;
+    }
+
+    await submitUpdate(base, changes);
+  };
+
+  // Keep the chosen local values plus every non-conflicting edit, rebased on the stored row
+  const handleMergeResolve = async (keepMine: MetricFieldKey[]) => {
+    if (!mergeConflict) return;
+    const { current, mine, conflicts } = mergeConflict;
+
+    const changes = Object.fromEntries(
+      Object.entries(mine).filter(([key]) => !conflicts.includes(key as MetricFieldKey) || keepMine.includes(key as MetricFieldKey))
+    ) as Partial<WeekMetric>;
+
+    if (Object.keys(changes).length === 0) {
+      clearEdit(current.id);
+      setMergeConflict(null);
+      return;
+    }
+
+    setEditBases(prev => ({ ...prev, [current.id]: current }));
+    setEditedMetrics(prev => ({ ...prev, [current.id]: changes }));
+    await submitUpdate(current, changes);
+  };
+
+  // Throw away the local edit and keep the stored row
+  const handleMergeCancel = () => {
+    if (mergeConflict) clearEdit(mergeConflict.current.id);
+    setMergeConflict(null);
+  };
+
   const handleAddNew = async () => {
-    if (Object.keys(newMetric).length === 0) {
-      setError('Please fill in at least one field');
+    const missing = REQUIRED_METRIC_FIELDS.filter(field => validateNewMetric(newMetric)[field] === 'Required');
+    if (missing.length > 0) {
+      setError(`Please fill in ${missing.map(field => allFields.find(f => f.key === field)?.label ?? field).join(' and ')}`);
+      return;
+    }
+    if (Object.keys(newRowErrors).length > 0) {
+      setError('Please fix the highlighted fields before saving');
       return;
     }
 
@@ -709,7 +889,6 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
 
       await axios.post(`${API_URL}/metrics/add`, {
         data: newMetric,
-        userRole: user?.role,
       });
 
       setNewMetric({});
@@ -730,6 +909,11 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
     }
   };
 
+  // The Add Row form is checked as it is filled in; the server applies the same schema
+  const newRowErrors = validateMetricFields(newMetric);
+  // Derived columns are filled in by the server once their counts are entered
+  const newRowDerived = deriveMetricFields(newMetric, DERIVED_FIELD_KEYS);
+
   const getDisplayValue = (metric: WeekMetric, field: string) => {
     const edited = editedMetrics[metric.id];
     if (edited && field in edited) {
@@ -765,17 +949,23 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
             <div>
               <h3 className="text-lg md:text-xl font-bold">Week Metrics</h3>
               <p className="text-white/60 text-xs md:text-sm flex items-center gap-2">
-                {isAdmin ? (
+                {canEditAllFields ? (
                   <>
                     <Unlock size={12} />
-                    <span className="hidden sm:inline">Admin Access - All fields editable</span>
-                    <span className="sm:hidden">Admin</span>
+                    <span className="hidden sm:inline">Full Access - All fields editable</span>
+                    <span className="sm:hidden">Full</span>
+                  </>
+                ) : editableFields.length === 1 ? (
+                  <>
+                    <Lock size={12} />
+                    <span className="hidden sm:inline">Limited Access - Only "{editableFields[0].label}" editable</span>
+                    <span className="sm:hidden">Limited</span>
                   </>
                 ) : (
                   <>
                     <Lock size={12} />
-                    <span className="hidden sm:inline">User Access - Only "Defy Lead" editable</span>
-                    <span className="sm:hidden">User</span>
+                    <span className="hidden sm:inline">Limited Access - {editableFields.length} of {allFields.length} fields editable</span>
+                    <span className="sm:hidden">Limited</span>
                   </>
                 )}
               </p>
@@ -796,23 +986,34 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
               <UserPlus size={14} />
               <span className="hidden sm:inline">Add Lead</span>
             </button>
-            {isAdmin && (
-              <>
-                <button
-                  onClick={() => setShowUploadModal(true)}
-                  className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors text-sm"
-                >
-                  <Upload size={14} />
-                  <span className="hidden sm:inline">Upload Data</span>
-                </button>
-                <button
-                  onClick={() => setShowAddForm(!showAddForm)}
-                  className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-[#13BCC5] text-white rounded-xl hover:bg-[#0FA8B0] transition-colors text-sm"
-                >
-                  <Plus size={14} />
-                  <span className="hidden sm:inline">Add Row</span>
-                </button>
-              </>
+            {canUploadData && (
+              <button
+                onClick={() => setShowUploadModal(true)}
+                className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors text-sm"
+              >
+                <Upload size={14} />
+                <span className="hidden sm:inline">Upload Data</span>
+              </button>
+            )}
+            {permissions.recomputeFields && mismatchedRows.length > 0 && (
+              <button
+                onClick={handleRecompute}
+                disabled={saving}
+                title="Stored rates or net connects disagree with the raw counts"
+                className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-amber-500 text-white rounded-xl hover:bg-amber-600 transition-colors text-sm disabled:opacity-50"
+              >
+                <Calculator size={14} />
+                <span className="hidden sm:inline">Recompute ({mismatchedRows.length})</span>
+              </button>
+            )}
+            {permissions.addRows && (
+              <button
+                onClick={() => setShowAddForm(!showAddForm)}
+                className="flex items-center gap-1 md:gap-2 px-3 md:px-4 py-2 bg-[#13BCC5] text-white rounded-xl hover:bg-[#0FA8B0] transition-colors text-sm"
+              >
+                <Plus size={14} />
+                <span className="hidden sm:inline">Add Row</span>
+              </button>
             )}
           </div>
         </div>
@@ -830,13 +1031,23 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
               <h4 className="font-bold text-[#1b1e4c]">Filters</h4>
               <p className="text-xs text-slate-500">
                 {selectedAgent === 'all' && selectedDate === 'all'
-                  ? `Showing all ${metrics.length} records`
-                  : `Showing ${filteredMetrics.length} of ${metrics.length} records`
+                  ? `Showing all ${activeMetrics.length} records`
+                  : `Showing ${filteredMetrics.length} of ${activeMetrics.length} records`
                 }
                 {selectedAgent !== 'all' && ` • Agent: ${selectedAgent}`}
                 {selectedDate !== 'all' && ` • Date: ${selectedDate}`}
+                {showArchived && ' • Including archived'}
               </p>
             </div>
+            <label className="ml-auto flex items-center gap-2 text-xs md:text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="w-4 h-4 accent-[#13BCC5]"
+              />
+              Show archived
+            </label>
           </div>
 
           {/* Filter Controls */}
@@ -906,7 +1117,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                             <span className="font-medium">{agent}</span>
                             {selectedAgent === agent && <CheckCircle2 size={14} className="ml-auto" />}
                           </button>
-                          {isAdmin && (
+                          {canManageAgents && (
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -921,7 +1132,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                       ))}
 
                       {/* Add New Agent Button */}
-                      {isAdmin && (
+                      {canManageAgents && (
                         <>
                           <div className="border-t border-slate-100" />
                           <button
@@ -1116,6 +1327,39 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
         </div>
       )}
 
+      {/* Merge Dialog */}
+      {mergeConflict && (
+        <MetricsMergeDialog<WeekMetric>
+          rowLabel={mergeConflict.current.campaign || mergeConflict.current.agent || `Row ${mergeConflict.current.rowIndex}`}
+          conflicts={allFields.filter(f => mergeConflict.conflicts.includes(f.key))}
+          theirs={allFields.filter(f => mergeConflict.theirs.includes(f.key))}
+          base={mergeConflict.base}
+          mine={mergeConflict.mine}
+          current={mergeConflict.current}
+          saving={saving}
+          onResolve={handleMergeResolve}
+          onCancel={handleMergeCancel}
+        />
+      )}
+
+      {/* History Drawer */}
+      {historyMetric && (
+        <MetricHistoryDrawer<WeekMetric>
+          metricId={historyMetric.id}
+          version={historyMetric.version}
+          title={historyMetric.campaign || historyMetric.agent || `Row ${historyMetric.rowIndex}`}
+          fieldLabels={{ ...Object.fromEntries(allFields.map(f => [f.key, f.label])), archivedAt: 'Archived At' }}
+          canRevert={permissions.revertChanges}
+          onReverted={(reverted) => {
+            setMetrics(prev => prev.map(m => m.id === reverted.id ? reverted : m));
+            setSuccess('Row reverted');
+            setTimeout(() => setSuccess(null), 3000);
+            onRefresh();
+          }}
+          onClose={() => setHistoryMetricId(null)}
+        />
+      )}
+
       {/* Add Lead Modal */}
       {showAddLeadModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1179,7 +1423,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                         <div className="flex-1">
                           <p className="font-medium text-[#1b1e4c]">{agent}</p>
                           <p className="text-xs text-slate-500">
-                            {metrics.filter(m => m.agent?.toLowerCase().includes(agent.toLowerCase())).length} records
+                            {activeMetrics.filter(m => m.agent?.toLowerCase().includes(agent.toLowerCase())).length} records
                           </p>
                         </div>
                         <ArrowRight size={20} className="text-slate-400" />
@@ -1354,451 +1598,14 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
         </div>
       )}
 
-      {/* Upload Data Modal */}
+      {/* Import Wizard */}
       {showUploadModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-2xl w-full max-w-lg shadow-2xl overflow-hidden">
-            {/* Modal Header */}
-            <div className="bg-gradient-to-r from-purple-500 to-purple-600 p-6 text-white">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center">
-                    <FileSpreadsheet className="w-6 h-6" />
-                  </div>
-                  <div>
-                    <h4 className="font-bold text-lg">Upload Campaign Data</h4>
-                    <p className="text-white/80 text-sm">Step {uploadStep} of 3</p>
-                  </div>
-                </div>
-                <button
-                  onClick={resetUploadModal}
-                  className="p-2 hover:bg-white/20 rounded-lg transition-colors"
-                >
-                  <X size={20} />
-                </button>
-              </div>
-              {/* Progress Bar */}
-              <div className="flex gap-2 mt-4">
-                {[1, 2, 3].map((step) => (
-                  <div
-                    key={step}
-                    className={`flex-1 h-1.5 rounded-full transition-all ${
-                      step <= uploadStep ? 'bg-white' : 'bg-white/30'
-                    }`}
-                  />
-                ))}
-              </div>
-            </div>
-
-            {/* Modal Content */}
-            <div className="p-6">
-              {/* Step 1: Upload File */}
-              {uploadStep === 1 && (
-                <div className="space-y-4">
-                  <div>
-                    <h5 className="font-bold text-[#1b1e4c] mb-1">Upload CSV File</h5>
-                    <p className="text-sm text-slate-500">
-                      Upload your LinkedIn campaign daily activity CSV file
-                    </p>
-                  </div>
-
-                  <div
-                    onClick={() => fileInputRef.current?.click()}
-                    className="border-2 border-dashed border-purple-200 rounded-xl p-8 text-center cursor-pointer hover:border-purple-400 hover:bg-purple-50 transition-all"
-                  >
-                    <Upload className="w-12 h-12 text-purple-400 mx-auto mb-3" />
-                    <p className="font-medium text-[#1b1e4c]">Click to upload CSV</p>
-                    <p className="text-sm text-slate-500 mt-1">or drag and drop</p>
-                    <p className="text-xs text-slate-400 mt-2">
-                      Supports: CSV files from LinkedIn Helper
-                    </p>
-                  </div>
-
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".csv"
-                    onChange={handleFileUpload}
-                    className="hidden"
-                  />
-
-                  <div className="bg-slate-50 rounded-xl p-4">
-                    <h6 className="font-medium text-slate-700 text-sm mb-2">Expected columns:</h6>
-                    <div className="flex flex-wrap gap-2">
-                      {['invited', 'accepted', 'messaged', 'replied', 'start_date', 'end_date'].map(col => (
-                        <span key={col} className="px-2 py-1 bg-white rounded text-xs text-slate-600 border border-slate-200">
-                          {col}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Step 2: Review Data & Select Campaign Type */}
-              {uploadStep === 2 && csvData && (
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h5 className="font-bold text-[#1b1e4c] mb-1">Review Extracted Data</h5>
-                      <p className="text-sm text-slate-500">
-                        Data from: <span className="font-medium text-purple-600">{uploadedFileName}</span>
-                      </p>
-                    </div>
-                    <button
-                      onClick={() => {
-                        setUploadStep(1);
-                        setCsvData(null);
-                      }}
-                      className="flex items-center gap-1 text-sm text-slate-600 hover:text-[#1b1e4c]"
-                    >
-                      <ArrowLeft size={16} />
-                      Back
-                    </button>
-                  </div>
-
-                  {/* Extracted Data Summary */}
-                  <div className="bg-gradient-to-br from-purple-50 to-white rounded-xl p-4 border border-purple-100">
-                    <div className="flex items-center gap-2 mb-3">
-                      <FileCheck className="w-5 h-5 text-purple-500" />
-                      <span className="font-medium text-purple-700">Extracted Data</span>
-                    </div>
-                    <div className="grid grid-cols-2 gap-3">
-                      <div className="bg-white rounded-lg p-3 border border-slate-100">
-                        <p className="text-xs text-slate-500">Total Invited</p>
-                        <p className="text-xl font-bold text-[#1b1e4c]">{csvData.totalInvited}</p>
-                      </div>
-                      <div className="bg-white rounded-lg p-3 border border-slate-100">
-                        <p className="text-xs text-slate-500">Total Accepted</p>
-                        <p className="text-xl font-bold text-emerald-600">{csvData.totalAccepted}</p>
-                      </div>
-                      <div className="bg-white rounded-lg p-3 border border-slate-100">
-                        <p className="text-xs text-slate-500">Acceptance Rate</p>
-                        <p className="text-xl font-bold text-blue-600">{csvData.acceptanceRate}</p>
-                      </div>
-                      <div className="bg-white rounded-lg p-3 border border-slate-100">
-                        <p className="text-xs text-slate-500">Total Replies</p>
-                        <p className="text-xl font-bold text-amber-600">{csvData.replies}</p>
-                      </div>
-                      <div className="bg-white rounded-lg p-3 border border-slate-100">
-                        <p className="text-xs text-slate-500">Messages Sent</p>
-                        <p className="text-xl font-bold text-purple-600">{csvData.totalMessaged}</p>
-                      </div>
-                      <div className="bg-white rounded-lg p-3 border border-slate-100">
-                        <p className="text-xs text-slate-500">Reply Rate</p>
-                        <p className="text-xl font-bold text-pink-600">{csvData.replyPercent}</p>
-                      </div>
-                    </div>
-                    <div className="mt-3 pt-3 border-t border-purple-100">
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-slate-500">Date Range:</span>
-                        <span className="font-medium text-[#1b1e4c]">{csvData.dateRange}</span>
-                      </div>
-                      <div className="flex items-center justify-between text-sm mt-1">
-                        <span className="text-slate-500">Week End:</span>
-                        <span className="font-medium text-[#1b1e4c]">{csvData.weekEnd || 'Not found'}</span>
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Missing Columns Warning */}
-                  {csvData.missingColumns && csvData.missingColumns.length > 0 && (
-                    <div className="bg-amber-50 rounded-xl p-3 border border-amber-200">
-                      <div className="flex items-center gap-2 text-amber-700 text-sm">
-                        <AlertCircle size={16} />
-                        <span className="font-medium">Some columns not found in CSV:</span>
-                      </div>
-                      <div className="flex flex-wrap gap-1 mt-2">
-                        {csvData.missingColumns.map(col => (
-                          <span key={col} className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded text-xs">
-                            {col}
-                          </span>
-                        ))}
-                      </div>
-                      <p className="text-xs text-amber-600 mt-2">
-                        You can fill in missing values manually in the next step.
-                      </p>
-                    </div>
-                  )}
-
-                  {/* Agent Selection */}
-                  <div>
-                    <h6 className="font-medium text-[#1b1e4c] mb-2">Which agent is this for?</h6>
-                    <select
-                      value={newMetric.agent || ''}
-                      onChange={(e) => setNewMetric(prev => ({ ...prev, agent: e.target.value }))}
-                      className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                    >
-                      <option value="">Select Agent...</option>
-                      {agents.map(agent => (
-                        <option key={agent} value={agent}>{agent}</option>
-                      ))}
-                    </select>
-                  </div>
-
-                  {/* Campaign Type Selection */}
-                  <div>
-                    <h6 className="font-medium text-[#1b1e4c] mb-2">What type of campaign is this?</h6>
-                    <div className="grid gap-3">
-                      <button
-                        onClick={() => {
-                          if (!newMetric.agent) {
-                            setError('Please select an agent first');
-                            return;
-                          }
-                          setNewMetric(prev => ({ ...prev, campaign: 'Invite to Connect' }));
-                          setUploadStep(3);
-                        }}
-                        className={`w-full p-4 rounded-xl border-2 text-left flex items-center gap-4 transition-all hover:border-purple-500 hover:bg-purple-50 ${
-                          newMetric.campaign === 'Invite to Connect' ? 'border-purple-500 bg-purple-50' : 'border-slate-200'
-                        } ${!newMetric.agent ? 'opacity-50' : ''}`}
-                      >
-                        <div className="w-12 h-12 rounded-xl bg-blue-100 flex items-center justify-center">
-                          <UserPlus className="w-6 h-6 text-blue-600" />
-                        </div>
-                        <div className="flex-1">
-                          <p className="font-medium text-[#1b1e4c]">Invite to Connect</p>
-                          <p className="text-xs text-slate-500">Connection request campaigns</p>
-                        </div>
-                        <ArrowRight size={20} className="text-slate-400" />
-                      </button>
-                      <button
-                        onClick={() => {
-                          if (!newMetric.agent) {
-                            setError('Please select an agent first');
-                            return;
-                          }
-                          setNewMetric(prev => ({ ...prev, campaign: 'Solicitation Campaign' }));
-                          setUploadStep(3);
-                        }}
-                        className={`w-full p-4 rounded-xl border-2 text-left flex items-center gap-4 transition-all hover:border-purple-500 hover:bg-purple-50 ${
-                          newMetric.campaign === 'Solicitation Campaign' ? 'border-purple-500 bg-purple-50' : 'border-slate-200'
-                        } ${!newMetric.agent ? 'opacity-50' : ''}`}
-                      >
-                        <div className="w-12 h-12 rounded-xl bg-amber-100 flex items-center justify-center">
-                          <Target className="w-6 h-6 text-amber-600" />
-                        </div>
-                        <div className="flex-1">
-                          <p className="font-medium text-[#1b1e4c]">Solicitation Campaign</p>
-                          <p className="text-xs text-slate-500">Direct outreach & messaging</p>
-                        </div>
-                        <ArrowRight size={20} className="text-slate-400" />
-                      </button>
-                    </div>
-                    {!newMetric.agent && (
-                      <p className="text-xs text-amber-600 mt-2 flex items-center gap-1">
-                        <AlertCircle size={12} />
-                        Select an agent above to continue
-                      </p>
-                    )}
-                  </div>
-                </div>
-              )}
-
-              {/* Step 3: Fill Remaining Fields */}
-              {uploadStep === 3 && csvData && (
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h5 className="font-bold text-[#1b1e4c] mb-1">Complete Details</h5>
-                      <p className="text-sm text-slate-500">Fill in the remaining fields</p>
-                    </div>
-                    <button
-                      onClick={() => setUploadStep(2)}
-                      className="flex items-center gap-1 text-sm text-slate-600 hover:text-[#1b1e4c]"
-                    >
-                      <ArrowLeft size={16} />
-                      Back
-                    </button>
-                  </div>
-
-                  {/* Auto-filled Summary */}
-                  <div className="bg-emerald-50 rounded-xl p-3 border border-emerald-200">
-                    <div className="flex items-center gap-2 text-emerald-700 text-sm">
-                      <CheckCircle2 size={16} />
-                      <span className="font-medium">Auto-filled from CSV:</span>
-                    </div>
-                    <p className="text-xs text-emerald-600 mt-1">
-                      Invited: {csvData.totalInvited} • Accepted: {csvData.totalAccepted} •
-                      Replies: {csvData.replies} • Rate: {csvData.acceptanceRate}
-                    </p>
-                  </div>
-
-                  {/* Agent & Campaign Badges */}
-                  <div className="flex flex-wrap items-center gap-2">
-                    <span className="text-sm text-slate-600">Agent:</span>
-                    <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm font-medium">
-                      {newMetric.agent}
-                    </span>
-                    <span className="text-sm text-slate-600 ml-2">Campaign:</span>
-                    <span className="px-3 py-1 bg-purple-100 text-purple-700 rounded-full text-sm font-medium">
-                      {newMetric.campaign}
-                    </span>
-                  </div>
-
-                  {/* Missing CSV Data - Manual Entry */}
-                  {csvData.missingColumns && csvData.missingColumns.length > 0 && (
-                    <div className="bg-amber-50 rounded-xl p-4 border border-amber-200">
-                      <div className="flex items-center gap-2 text-amber-700 text-sm mb-3">
-                        <AlertCircle size={16} />
-                        <span className="font-medium">Fill in missing data manually:</span>
-                      </div>
-                      <div className="grid grid-cols-2 gap-3">
-                        {csvData.missingColumns.includes('invited') && (
-                          <div>
-                            <label className="block text-xs font-medium text-amber-700 mb-1">Total Invited *</label>
-                            <input
-                              type="number"
-                              value={newMetric.totalInvited || ''}
-                              onChange={(e) => setNewMetric(prev => ({ ...prev, totalInvited: e.target.value }))}
-                              placeholder="Enter total invited..."
-                              className="w-full px-3 py-2 bg-white border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/30 focus:border-amber-500"
-                            />
-                          </div>
-                        )}
-                        {csvData.missingColumns.includes('accepted') && (
-                          <div>
-                            <label className="block text-xs font-medium text-amber-700 mb-1">Total Accepted *</label>
-                            <input
-                              type="number"
-                              value={newMetric.totalAccepted || ''}
-                              onChange={(e) => setNewMetric(prev => ({ ...prev, totalAccepted: e.target.value }))}
-                              placeholder="Enter total accepted..."
-                              className="w-full px-3 py-2 bg-white border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/30 focus:border-amber-500"
-                            />
-                          </div>
-                        )}
-                        {csvData.missingColumns.includes('messaged') && (
-                          <div>
-                            <label className="block text-xs font-medium text-amber-700 mb-1">Total Messaged</label>
-                            <input
-                              type="number"
-                              value={newMetric.totalMessaged || ''}
-                              onChange={(e) => setNewMetric(prev => ({ ...prev, totalMessaged: e.target.value }))}
-                              placeholder="Enter total messaged..."
-                              className="w-full px-3 py-2 bg-white border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/30 focus:border-amber-500"
-                            />
-                          </div>
-                        )}
-                        {csvData.missingColumns.includes('replied') && (
-                          <div>
-                            <label className="block text-xs font-medium text-amber-700 mb-1">Total Replies</label>
-                            <input
-                              type="number"
-                              value={newMetric.replies || ''}
-                              onChange={(e) => setNewMetric(prev => ({ ...prev, replies: e.target.value }))}
-                              placeholder="Enter total replies..."
-                              className="w-full px-3 py-2 bg-white border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/30 focus:border-amber-500"
-                            />
-                          </div>
-                        )}
-                        {(csvData.missingColumns.includes('start_date') || csvData.missingColumns.includes('end_date') || !csvData.weekEnd) && (
-                          <div className="col-span-2">
-                            <label className="block text-xs font-medium text-amber-700 mb-1">Week End Date *</label>
-                            <input
-                              type="date"
-                              value={newMetric.weekEnd || ''}
-                              onChange={(e) => setNewMetric(prev => ({ ...prev, weekEnd: e.target.value }))}
-                              className="w-full px-3 py-2 bg-white border border-amber-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/30 focus:border-amber-500"
-                            />
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Remaining Fields */}
-                  <div className="grid grid-cols-2 gap-3">
-                    <div>
-                      <label className="block text-xs font-medium text-slate-600 mb-1">Status</label>
-                      <select
-                        value={newMetric.status || ''}
-                        onChange={(e) => setNewMetric(prev => ({ ...prev, status: e.target.value }))}
-                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                      >
-                        <option value="">Select Status</option>
-                        <option value="Active">Active</option>
-                        <option value="Not Active">Not Active</option>
-                      </select>
-                    </div>
-                    <div className="col-span-2">
-                      <label className="block text-xs font-medium text-slate-600 mb-1">Audience</label>
-                      <select
-                        value={newMetric.audience || ''}
-                        onChange={(e) => setNewMetric(prev => ({ ...prev, audience: e.target.value }))}
-                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                      >
-                        <option value="">Select Audience</option>
-                        {INSURANCE_AUDIENCES.map(audience => (
-                          <option key={audience} value={audience}>{audience}</option>
-                        ))}
-                      </select>
-                    </div>
-                    <div>
-                      <label className="block text-xs font-medium text-slate-600 mb-1">Defy Lead</label>
-                      <input
-                        type="text"
-                        value={newMetric.defyLead || ''}
-                        onChange={(e) => setNewMetric(prev => ({ ...prev, defyLead: e.target.value }))}
-                        placeholder="Enter lead name..."
-                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs font-medium text-slate-600 mb-1">Location</label>
-                      <input
-                        type="text"
-                        value={newMetric.location || ''}
-                        onChange={(e) => setNewMetric(prev => ({ ...prev, location: e.target.value }))}
-                        placeholder="e.g., USA, Global"
-                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs font-medium text-slate-600 mb-1">Message</label>
-                      <input
-                        type="text"
-                        value={newMetric.message || ''}
-                        onChange={(e) => setNewMetric(prev => ({ ...prev, message: e.target.value }))}
-                        placeholder="Message template..."
-                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs font-medium text-slate-600 mb-1">Target</label>
-                      <input
-                        type="text"
-                        value={newMetric.target || ''}
-                        onChange={(e) => setNewMetric(prev => ({ ...prev, target: e.target.value }))}
-                        placeholder="Target audience..."
-                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/30 focus:border-purple-500"
-                      />
-                    </div>
-                  </div>
-
-                  {/* Submit Button */}
-                  <button
-                    onClick={handleUploadSubmit}
-                    disabled={saving || !newMetric.agent}
-                    className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {saving ? (
-                      <>
-                        <Loader2 size={18} className="animate-spin" />
-                        Saving...
-                      </>
-                    ) : (
-                      <>
-                        <Check size={18} />
-                        Save to Google Sheet
-                      </>
-                    )}
-                  </button>
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
+        <MetricsImportWizard
+          agents={agents}
+          audiences={INSURANCE_AUDIENCES}
+          onImported={handleImported}
+          onClose={() => setShowUploadModal(false)}
+        />
       )}
 
       {/* View Toggle */}
@@ -1853,15 +1660,32 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
         </div>
       )}
 
+      {lastSave && (
+        <div className="flex items-center gap-2 p-3 md:p-4 bg-emerald-50 border border-emerald-200 rounded-xl text-emerald-700 text-sm">
+          <CheckCircle2 size={18} className="flex-shrink-0" />
+          <span className="flex-1">
+            Changes saved to {lastSave.metric.campaign || lastSave.metric.agent || `row ${lastSave.metric.rowIndex}`}.
+          </span>
+          <button
+            onClick={handleUndo}
+            disabled={saving}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-emerald-200 rounded-lg hover:bg-emerald-100 transition-colors font-medium disabled:opacity-50"
+          >
+            <Undo2 size={14} />
+            Undo last save
+          </button>
+        </div>
+      )}
+
       {/* Add New Form */}
-      {showAddForm && isAdmin && (
+      {showAddForm && permissions.addRows && (
         <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 md:p-6">
           <h4 className="font-bold text-[#1b1e4c] mb-4 flex items-center gap-2">
             <Plus size={18} />
             Add New Week Metrics Row
           </h4>
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
-            {allFields.map(field => (
+            {addableFields.map(field => (
               <div key={field.key}>
                 <label className="block text-xs font-medium text-slate-600 mb-1">
                   {field.label}
@@ -2022,11 +1846,19 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                   /* Regular Text Input */
                   <input
                     type="text"
-                    value={newMetric[field.key as keyof WeekMetric] || ''}
+                    value={(isDerivedField(field.key) && newRowDerived[field.key]) || newMetric[field.key as MetricsColumn] || ''}
                     onChange={(e) => setNewMetric(prev => ({ ...prev, [field.key]: e.target.value }))}
-                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]"
+                    disabled={isDerivedField(field.key) && field.key in newRowDerived}
+                    className={`w-full px-3 py-2 bg-slate-50 border rounded-lg text-sm focus:outline-none focus:ring-2 disabled:text-slate-500 disabled:cursor-not-allowed ${
+                      newRowErrors[field.key as MetricsColumn]
+                        ? 'border-red-300 focus:ring-red-200 focus:border-red-400'
+                        : 'border-slate-200 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]'
+                    }`}
                   />
                 )}
+                {newRowErrors[field.key as MetricsColumn] && (
+                  <p className="mt-1 text-xs text-red-600">{newRowErrors[field.key as MetricsColumn]}</p>
+                )}
               </div>
             ))}
           </div>
@@ -2056,7 +1888,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
       {activeView === 'insurance' && (
         <InsuranceDataAnalytics
           metrics={filteredMetrics}
-          allMetrics={metrics}
+          allMetrics={activeMetrics}
           selectedAgent={selectedAgent}
         />
       )}
@@ -2125,13 +1957,43 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
 
           {/* Metrics Table */}
           <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
-            <div className="p-4 border-b border-slate-100">
-              <h4 className="font-bold text-[#1b1e4c]">Week Metrics Data</h4>
-              <p className="text-xs md:text-sm text-slate-500">
-                {isAdmin ? 'Tap any row to edit all fields' : 'Tap any row to edit Defy Lead'}
-              </p>
+            <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-3">
+              <div>
+                <h4 className="font-bold text-[#1b1e4c]">Week Metrics Data</h4>
+                <p className="text-xs md:text-sm text-slate-500">
+                  {canEditAllFields
+                    ? 'Tap any row to edit all fields'
+                    : `Tap any row to edit ${editableFields.length === 1 ? editableFields[0].label : 'the fields you have access to'}`}
+                </p>
+              </div>
+              {canBulkEdit && filteredMetrics.length > 0 && (
+                <label className="flex items-center gap-2 text-xs md:text-sm text-slate-600 cursor-pointer flex-shrink-0">
+                  <input
+                    type="checkbox"
+                    checked={allShownSelected}
+                    onChange={toggleSelectAllShown}
+                    className="w-4 h-4 accent-[#13BCC5]"
+                  />
+                  Select all shown
+                </label>
+              )}
             </div>
 
+            {canBulkEdit && selectedIds.size > 0 && (
+              <MetricsBulkEditBar<BulkFieldKey>
+                selectedCount={selectedIds.size}
+                fields={bulkFields}
+                suggestions={bulkSuggestions}
+                saving={saving}
+                failures={bulkFailures}
+                onApply={handleBulkApply}
+                onArchive={permissions.archiveRows
+                  ? () => handleArchive(metrics.filter(m => selectedIds.has(m.id)), true)
+                  : undefined}
+                onClear={clearSelection}
+              />
+            )}
+
             {filteredMetrics.length === 0 ? (
               <div className="p-8 md:p-12 text-center">
                 <TrendingUp className="w-10 h-10 md:w-12 md:h-12 text-slate-300 mx-auto mb-4" />
@@ -2141,7 +2003,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                     : `No data found for ${selectedAgent}`
                   }
                 </p>
-                {isAdmin && selectedAgent === 'all' && (
+                {permissions.addRows && selectedAgent === 'all' && (
                   <button
                     onClick={() => setShowAddForm(true)}
                     className="mt-4 text-[#13BCC5] hover:underline text-sm"
@@ -2161,7 +2023,7 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
             ) : (
               <div className="divide-y divide-slate-100">
                 {filteredMetrics.map((metric) => (
-                  <div key={metric.id} className="hover:bg-slate-50 transition-colors">
+                  <div key={metric.id} className={`hover:bg-slate-50 transition-colors ${metric.archivedAt ? 'opacity-60' : ''}`}>
                     {/* Row Header */}
                     <div
                       onClick={() => setExpandedRow(expandedRow === metric.id ? null : metric.id)}
@@ -2169,12 +2031,34 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3 md:gap-4 flex-1 min-w-0">
+                          {canBulkEdit && (
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(metric.id)}
+                              onChange={() => toggleSelected(metric.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              className="w-4 h-4 accent-[#13BCC5] flex-shrink-0"
+                            />
+                          )}
                           <div className="w-7 h-7 md:w-8 md:h-8 rounded-lg bg-[#13BCC5]/10 flex items-center justify-center text-[#13BCC5] font-bold text-xs md:text-sm flex-shrink-0">
                             {metric.rowIndex}
                           </div>
                           <div className="min-w-0 flex-1">
-                            <p className="font-medium text-[#1b1e4c] text-sm md:text-base truncate">
-                              {metric.campaign || metric.agent || `Row ${metric.rowIndex}`}
+                            <p className="flex items-center gap-2 font-medium text-[#1b1e4c] text-sm md:text-base min-w-0">
+                              <span className="truncate">{metric.campaign || metric.agent || `Row ${metric.rowIndex}`}</span>
+                              {metric.archivedAt && (
+                                <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-600 text-[10px] font-medium flex-shrink-0">
+                                  Archived
+                                </span>
+                              )}
+                              {metric.derivedMismatches?.length > 0 && (
+                                <span
+                                  title={`Disagrees with the raw counts: ${metric.derivedMismatches.map(key => allFields.find(f => f.key === key)?.label ?? key).join(', ')}`}
+                                  className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-[10px] font-medium flex-shrink-0"
+                                >
+                                  Check totals
+                                </span>
+                              )}
                             </p>
                             <p className="text-xs md:text-sm text-slate-500 truncate">
                               {metric.weekEnd && `W.End: ${metric.weekEnd}`}
@@ -2230,33 +2114,72 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
 
                         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
                           {allFields.map(field => {
-                            const editable = canEditField(field.key);
+                            // Derived columns follow their counts once those are filled in
+                            const computed = isDerivedField(field.key)
+                              ? rowDerivedValues(metric)[field.key]
+                              : undefined;
+                            const editable = canEditField(field.key) && computed === undefined;
+                            const fieldError = rowFieldErrors(metric)[field.key as MetricsColumn];
                             return (
                               <div key={field.key}>
                                 <label className="flex items-center gap-1 text-xs font-medium text-slate-600 mb-1">
                                   {field.label}
-                                  {!editable && <Lock size={10} className="text-slate-400" />}
-                                  {field.key === 'defyLead' && !isAdmin && (
+                                  {computed !== undefined && <Calculator size={10} className="text-slate-400" />}
+                                  {computed === undefined && !editable && <Lock size={10} className="text-slate-400" />}
+                                  {editable && !canEditAllFields && (
                                     <span className="text-[#13BCC5] text-[10px]">(Edit)</span>
                                   )}
                                 </label>
                                 <input
                                   type="text"
-                                  value={getDisplayValue(metric, field.key)}
+                                  value={computed ?? getDisplayValue(metric, field.key)}
                                   onChange={(e) => handleFieldChange(metric.id, field.key, e.target.value)}
                                   disabled={!editable}
                                   className={`w-full px-2 md:px-3 py-2 border rounded-lg text-xs md:text-sm transition-all ${
-                                    editable
-                                      ? 'bg-white border-slate-200 focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]'
-                                      : 'bg-slate-100 border-slate-200 text-slate-500 cursor-not-allowed'
+                                    !editable
+                                      ? 'bg-slate-100 border-slate-200 text-slate-500 cursor-not-allowed'
+                                      : fieldError
+                                        ? 'bg-white border-red-300 focus:outline-none focus:ring-2 focus:ring-red-200 focus:border-red-400'
+                                        : 'bg-white border-slate-200 focus:outline-none focus:ring-2 focus:ring-[#13BCC5]/30 focus:border-[#13BCC5]'
                                   }`}
                                 />
+                                {fieldError && (
+                                  <p className="mt-1 text-[10px] md:text-xs text-red-600">{fieldError}</p>
+                                )}
+                                {isDerivedField(field.key) && metric.derivedMismatches?.includes(field.key) && (
+                                  <p className="mt-1 text-[10px] md:text-xs text-amber-600">
+                                    Stored: {metric[field.key] || '—'}
+                                  </p>
+                                )}
                               </div>
                             );
                           })}
                         </div>
-                        {hasChanges(metric.id) && (
-                          <div className="flex justify-end mt-4">
+                        <div className="flex items-center justify-between mt-4">
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setHistoryMetricId(metric.id)}
+                              className="flex items-center gap-2 px-4 py-2 text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200 transition-colors text-sm"
+                            >
+                              <History size={16} />
+                              History
+                            </button>
+                            {permissions.archiveRows && (
+                              <button
+                                onClick={() => handleArchive([metric], !metric.archivedAt)}
+                                disabled={saving}
+                                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 text-sm ${
+                                  metric.archivedAt
+                                    ? 'text-emerald-700 bg-emerald-50 hover:bg-emerald-100'
+                                    : 'text-red-600 bg-red-50 hover:bg-red-100'
+                                }`}
+                              >
+                                {metric.archivedAt ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                                {metric.archivedAt ? 'Restore' : 'Archive'}
+                              </button>
+                            )}
+                          </div>
+                          {hasChanges(metric.id) && (
                             <button
                               onClick={() => handleSave(metric.id)}
                               disabled={saving}
@@ -2265,8 +2188,8 @@ const WeekMetricsForm: React.FC<WeekMetricsFormProps> = ({ onRefresh }) => {
                               {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
                               Save Changes
                             </button>
-                          </div>
-                        )}
+                          )}
+                        </div>
                       </div>
                     )}
                   </div>
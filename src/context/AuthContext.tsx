@@ -1,10 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import axios from 'axios';
-import type { AuthState, LoginCredentials } from '../types/auth';
+import type { AuthState, LoginCredentials, StoredSession } from '../types/auth';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
+  // Swap in a token the server issued for the signed-in user (after a password change)
+  renewSession: (token: string, expiresAt: string) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -14,6 +16,21 @@ const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
 // Store auth in localStorage
 const AUTH_KEY = 'defy_auth';
 
+// Attach (or clear) the session token on every API request
+const setAuthHeader = (token: string | null) => {
+  if (token) {
+    axios.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    delete axios.defaults.headers.common.Authorization;
+  }
+};
+
+// A stored session is only usable if it carries a token that has not expired
+const isSessionValid = (session: Partial<StoredSession> | null): session is StoredSession => {
+  if (!session?.user || !session.token || !session.expiresAt) return false;
+  return new Date(session.expiresAt).getTime() > Date.now();
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, setState] = useState<AuthState>({
     user: null,
@@ -26,8 +43,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const stored = localStorage.getItem(AUTH_KEY);
     if (stored) {
       try {
-        const user = JSON.parse(stored);
-        setState({ user, isAuthenticated: true, loading: false });
+        const session = JSON.parse(stored);
+        if (!isSessionValid(session)) {
+          throw new Error('Session expired');
+        }
+        setAuthHeader(session.token);
+        setState({ user: session.user, isAuthenticated: true, loading: false });
       } catch {
         localStorage.removeItem(AUTH_KEY);
         setState({ user: null, isAuthenticated: false, loading: false });
@@ -42,10 +63,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setState(prev => ({ ...prev, loading: true }));
 
       const response = await axios.post(`${API_URL}/auth/login`, credentials);
-      const { user } = response.data;
+      const { user, token, expiresAt } = response.data;
 
-      if (user) {
-        localStorage.setItem(AUTH_KEY, JSON.stringify(user));
+      if (user && token) {
+        const session: StoredSession = { user, token, expiresAt };
+        localStorage.setItem(AUTH_KEY, JSON.stringify(session));
+        setAuthHeader(token);
         setState({ user, isAuthenticated: true, loading: false });
         return { success: true };
       }
@@ -63,11 +86,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const logout = useCallback(() => {
     localStorage.removeItem(AUTH_KEY);
+    setAuthHeader(null);
     setState({ user: null, isAuthenticated: false, loading: false });
   }, []);
 
+  const renewSession = useCallback((token: string, expiresAt: string) => {
+    const stored = localStorage.getItem(AUTH_KEY);
+    if (!stored) return;
+    localStorage.setItem(AUTH_KEY, JSON.stringify({ ...JSON.parse(stored), token, expiresAt }));
+    setAuthHeader(token);
+  }, []);
+
+  // Sign out when the server rejects the session token (expired or tampered)
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(
+      response => response,
+      error => {
+        if (axios.isAxiosError(error) && error.response?.status === 401 && !error.config?.url?.endsWith('/auth/login')) {
+          logout();
+        }
+        return Promise.reject(error);
+      }
+    );
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [logout]);
+
   return (
-    <AuthContext.Provider value={{ ...state, login, logout }}>
+    <AuthContext.Provider value={{ ...state, login, logout, renewSession }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,11 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import axios from 'axios';
-import type { NewsArticle, SuccessStory, ContentData, ContentStats } from '../types/content';
+import type { NewsArticle, ScheduleEntry, SuccessStory, ContentData, ContentStats } from '../types/content';
+import { useLiveUpdates, applyLiveChange } from './useLiveUpdates';
+import type { LiveChange } from './useLiveUpdates';
 
 // API URL - uses relative path for Vercel, or localhost for development
 const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
 
-// Refresh interval - 5 seconds for fast real-time updates
+// Polling interval - 5 seconds, used only while the live update stream is down
 const REFRESH_INTERVAL = 5000;
 
 // Calculate stats from data
@@ -47,13 +49,27 @@ export const useContentData = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const mountedRef = useRef(true);
+  // ETag of the last content received - the server answers 304 while it still matches
+  const etagRef = useRef<string | null>(null);
 
   const fetchAllData = useCallback(async () => {
     try {
       if (mountedRef.current) setError(null);
 
       // Fetch all data from API
-      const response = await axios.get(`${API_URL}/sheets`, { timeout: 15000 });
+      const response = await axios.get(`${API_URL}/sheets`, {
+        timeout: 15000,
+        headers: etagRef.current ? { 'If-None-Match': etagRef.current } : undefined,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
+      });
+
+      // Nothing changed since the last poll - keep the current data and skip the re-render
+      if (response.status === 304) {
+        if (mountedRef.current) setLoading(false);
+        return;
+      }
+
+      etagRef.current = response.headers.etag ?? null;
       const { articles, schedule, stories } = response.data;
 
       // Calculate stats
@@ -91,6 +107,30 @@ export const useContentData = () => {
     }
   }, []);
 
+  // Merge pushed changes into the current data
+  const handleLiveChange = useCallback((change: LiveChange) => {
+    if (change.collection === 'metrics') return;
+
+    setData(prev => {
+      const next = {
+        ...prev,
+        articles: change.collection === 'articles'
+          ? applyLiveChange(prev.articles, change as LiveChange<NewsArticle>)
+          : prev.articles,
+        schedule: change.collection === 'schedule'
+          ? applyLiveChange(prev.schedule, change as LiveChange<ScheduleEntry>)
+          : prev.schedule,
+        successStories: change.collection === 'stories'
+          ? applyLiveChange(prev.successStories, change as LiveChange<SuccessStory>)
+          : prev.successStories,
+        lastUpdated: new Date()
+      };
+      return { ...next, stats: calculateStats(next.articles, next.successStories) };
+    });
+  }, []);
+
+  const liveConnected = useLiveUpdates(handleLiveChange);
+
   useEffect(() => {
     mountedRef.current = true;
 
@@ -99,20 +139,28 @@ export const useContentData = () => {
       fetchAllData();
     }, 0);
 
-    // Auto-refresh every 5 seconds for real-time updates
-    const interval = setInterval(fetchAllData, REFRESH_INTERVAL);
-
     return () => {
       mountedRef.current = false;
       clearTimeout(timeoutId);
-      clearInterval(interval);
     };
   }, [fetchAllData]);
 
+  useEffect(() => {
+    // Catch up on anything missed while the stream was down, then rely on pushed changes
+    if (liveConnected) {
+      const timeoutId = setTimeout(fetchAllData, 0);
+      return () => clearTimeout(timeoutId);
+    }
+
+    // Stream unavailable - poll every 5 seconds instead
+    const interval = setInterval(fetchAllData, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [liveConnected, fetchAllData]);
+
   const refresh = useCallback(() => {
     setLoading(true);
     fetchAllData();
   }, [fetchAllData]);
 
-  return { data, loading, error, refresh };
+  return { data, loading, error, refresh, liveConnected };
 };
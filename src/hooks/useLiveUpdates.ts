@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef } from 'react';
+
+// API URL - uses relative path for Vercel, or localhost for development
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+// Delay before re-opening a stream the browser gave up on
+const RECONNECT_DELAY = 5000;
+
+export type LiveCollection = 'articles' | 'schedule' | 'stories' | 'metrics';
+
+// Payload of a `change` event from /api/events
+export interface LiveChange<T = unknown> {
+  collection: LiveCollection;
+  upserted: T[];
+  removed: string[];
+}
+
+type ChangeListener = (change: LiveChange) => void;
+type StatusListener = (connected: boolean) => void;
+
+// One EventSource per tab, shared by every hook instance
+const changeListeners = new Set<ChangeListener>();
+const statusListeners = new Set<StatusListener>();
+let source: EventSource | null = null;
+let connected = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach(listener => listener(value));
+};
+
+const openStream = () => {
+  source = new EventSource(`${API_URL}/events`);
+
+  source.addEventListener('ready', () => setConnected(true));
+
+  source.addEventListener('change', (event) => {
+    const change = JSON.parse((event as MessageEvent<string>).data) as LiveChange;
+    changeListeners.forEach(listener => listener(change));
+  });
+
+  source.onerror = () => {
+    setConnected(false);
+    // EventSource retries on its own unless the stream was closed for good
+    if (source?.readyState === EventSource.CLOSED) {
+      source = null;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (changeListeners.size > 0) openStream();
+      }, RECONNECT_DELAY);
+    }
+  };
+};
+
+const closeStream = () => {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  source?.close();
+  source = null;
+  setConnected(false);
+};
+
+// Replace changed records in place, append new ones and drop removed ids
+export function applyLiveChange<T extends { id: string }>(items: T[], change: LiveChange<T>): T[] {
+  const upsertedById = new Map(change.upserted.map(item => [item.id, item]));
+  const removed = new Set(change.removed);
+
+  const merged = items
+    .filter(item => !removed.has(item.id))
+    .map(item => {
+      const updated = upsertedById.get(item.id);
+      if (updated) upsertedById.delete(item.id);
+      return updated ?? item;
+    });
+
+  return [...merged, ...upsertedById.values()];
+}
+
+// Subscribe to live data changes. Returns whether the stream is currently connected,
+// so callers can fall back to polling while it is down.
+export const useLiveUpdates = (onChange: (change: LiveChange) => void) => {
+  const [isConnected, setIsConnected] = useState(connected);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    const changeListener: ChangeListener = change => onChangeRef.current(change);
+    changeListeners.add(changeListener);
+    statusListeners.add(setIsConnected);
+
+    if (typeof EventSource !== 'undefined' && !source && !reconnectTimer) {
+      openStream();
+    }
+
+    return () => {
+      changeListeners.delete(changeListener);
+      statusListeners.delete(setIsConnected);
+      if (changeListeners.size === 0) closeStream();
+    };
+  }, []);
+
+  return isConnected;
+};
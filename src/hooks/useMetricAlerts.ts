@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
+import { useLiveUpdates } from './useLiveUpdates';
+import { loadSettings, SETTINGS_CHANGED_EVENT } from '../utils/settings';
+import type { MetricAlert } from '../../shared/anomalies.js';
+
+// API URL - uses relative path for Vercel, or localhost for development
+const API_URL = import.meta.env.DEV ? 'http://localhost:3001/api' : '/api';
+
+/**
+ * Alerts on sudden drops in the weekly metrics, while "Metrics Alerts" is on in
+ * Settings. Re-checked whenever the metrics change.
+ */
+export const useMetricAlerts = () => {
+  const [enabled, setEnabled] = useState(() => loadSettings().alertsOnMetrics);
+  const [alerts, setAlerts] = useState<MetricAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the setting when it is saved here or in another tab
+  useEffect(() => {
+    const handleChange = () => setEnabled(loadSettings().alertsOnMetrics);
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleChange);
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(SETTINGS_CHANGED_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_URL}/alerts`);
+      setAlerts(response.data.alerts);
+      setError(null);
+    } catch (err) {
+      setError(axios.isAxiosError(err) ? err.response?.data?.error || 'Failed to check metric alerts' : 'Failed to check metric alerts');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timeoutId = setTimeout(fetchAlerts, 0);
+    return () => clearTimeout(timeoutId);
+  }, [enabled, fetchAlerts]);
+
+  useLiveUpdates(change => {
+    if (enabled && change.collection === 'metrics') fetchAlerts();
+  });
+
+  // Alerts from before the setting was turned off are not shown
+  return {
+    enabled,
+    alerts: enabled ? alerts : [],
+    error: enabled ? error : null,
+    refresh: fetchAlerts,
+  };
+};
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { getPermissions, canEditField, canAddField } from '../../shared/permissions.js';
+import type { RolePermissions } from '../../shared/permissions.js';
+
+export interface Permissions extends RolePermissions {
+  canEditField: (field: string) => boolean;
+  canAddField: (field: string) => boolean;
+}
+
+// Permissions for the signed-in user, from the matrix the server enforces
+export function usePermissions(): Permissions {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  return useMemo(() => ({
+    ...getPermissions(role),
+    canEditField: (field: string) => canEditField(role, field),
+    canAddField: (field: string) => canAddField(role, field),
+  }), [role]);
+}
@@ -0,0 +1,11 @@
+// One changed field of a metrics row, as recorded by the metrics add, update and revert routes
+export interface AuditEntry {
+  timestamp: string;
+  userEmail: string;
+  userName: string;
+  action: 'add' | 'update' | 'revert' | 'archive' | 'restore' | 'recompute';
+  recordId: string;
+  field: string;
+  oldValue: string;
+  newValue: string;
+}
@@ -6,6 +6,12 @@ export interface User {
   active: boolean;
 }
 
+export interface StoredSession {
+  user: User;
+  token: string;
+  expiresAt: string;
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -10,6 +10,7 @@ export interface NewsArticle {
 }
 
 export interface ScheduleEntry {
+  id: string;
   agentName: string;
   sunday: string;
   monday: string;
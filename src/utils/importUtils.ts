@@ -0,0 +1,253 @@
+// Import pipeline for outreach tool exports: read a CSV or XLSX file, map its columns
+// to week metrics and fold its daily rows into one row per week
+import * as XLSX from 'xlsx';
+import { addDays, format, isValid } from 'date-fns';
+import { parseMetricNumber } from '../../shared/metricsSchema.js';
+import { parseImportDate } from '../../shared/importDates.js';
+
+// Count columns summed into each week
+export type SummedField = 'totalInvited' | 'totalAccepted' | 'totalMessaged' | 'replies' | 'totalActions';
+
+// Where a file column goes: a count, the day the row covers, or nowhere
+export type ImportTarget = SummedField | 'date' | 'ignore';
+
+export const IMPORT_TARGETS: { key: ImportTarget; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'totalInvited', label: 'Invited' },
+  { key: 'totalAccepted', label: 'Accepted' },
+  { key: 'totalMessaged', label: 'Messaged' },
+  { key: 'replies', label: 'Replies' },
+  { key: 'totalActions', label: 'Actions' },
+  { key: 'ignore', label: "Don't import" },
+];
+
+const SUMMED_FIELDS: SummedField[] = ['totalInvited', 'totalAccepted', 'totalMessaged', 'replies', 'totalActions'];
+
+// Without these the imported weeks are not much use
+export const REQUIRED_TARGETS: ImportTarget[] = ['date', 'totalInvited', 'totalAccepted'];
+
+// Column mapping keyed by normalized header
+export type ImportMapping = Record<string, ImportTarget>;
+
+export interface ImportPreset {
+  name: string;
+  mapping: ImportMapping;
+}
+
+// Layouts of the export tools we know about
+const BUILT_IN_LAYOUTS: ImportPreset[] = [
+  {
+    name: 'LinkedIn Helper',
+    mapping: {
+      'invited': 'totalInvited',
+      'accepted': 'totalAccepted',
+      'messaged': 'totalMessaged',
+      'replied': 'replies',
+      'start date': 'ignore',
+      'end date': 'date',
+    },
+  },
+];
+
+// Common header spellings, for files that match no layout
+const HEADER_ALIASES: Partial<Record<ImportTarget, string[]>> = {
+  date: ['date', 'day', 'end date', 'activity date'],
+  totalInvited: ['invited', 'invites', 'invitations sent', 'invites sent', 'connection requests sent', 'requests sent'],
+  totalAccepted: ['accepted', 'invites accepted', 'invitations accepted', 'connections accepted', 'new connections'],
+  totalMessaged: ['messaged', 'messages', 'messages sent', 'sent messages'],
+  replies: ['replied', 'replies', 'responses', 'replies received'],
+  totalActions: ['actions', 'total actions'],
+};
+
+const PRESETS_STORAGE_KEY = 'weekMetrics_importPresets';
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportWeek {
+  // M/D/YYYY like the sheet; blank when the file has no date column
+  weekEnd: string;
+  firstDay: string;
+  lastDay: string;
+  // File rows folded into this week
+  rowCount: number;
+  // Sums of the mapped count columns
+  values: Partial<Record<SummedField, string>>;
+}
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+const cellText = (cell: unknown): string => {
+  if (cell instanceof Date) return isValid(cell) ? format(cell, 'yyyy-MM-dd') : '';
+  return String(cell ?? '').trim();
+};
+
+/**
+ * Read the first sheet of a CSV or XLSX file into a header row and data rows.
+ * CSV cells are kept as text so dates are not reinterpreted by the parser.
+ */
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const isCSV = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  const workbook = isCSV
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const cells = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' })
+    .map(row => row.map(cellText))
+    .filter(row => row.some(cell => cell !== ''));
+
+  const [headers = [], ...rows] = cells;
+  return { headers, rows };
+};
+
+/**
+ * Saved column mappings, most recently saved first
+ */
+export const loadImportPresets = (): ImportPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveImportPresets = (presets: ImportPreset[]): void => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+const aliasTarget = (header: string): ImportTarget | undefined =>
+  (Object.keys(HEADER_ALIASES) as ImportTarget[]).find(target => HEADER_ALIASES[target]!.includes(header));
+
+/**
+ * Pick the saved preset or known layout whose columns all appear in `headers` (the one
+ * covering most columns wins) and map every header. Headers no layout or alias
+ * recognizes are returned in `unknown` for the user to map.
+ */
+export const detectLayout = (
+  headers: string[],
+  presets: ImportPreset[]
+): { layoutName: string | null; mapping: ImportMapping; unknown: string[] } => {
+  const normalized = headers.map(normalizeHeader);
+
+  const layout = [...presets, ...BUILT_IN_LAYOUTS]
+    .filter(candidate => Object.keys(candidate.mapping).every(header => normalized.includes(header)))
+    .sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0];
+
+  const mapping: ImportMapping = {};
+  const unknown: string[] = [];
+  for (const header of normalized) {
+    const target = layout?.mapping[header] ?? aliasTarget(header);
+    if (!target) unknown.push(header);
+    mapping[header] = target ?? 'ignore';
+  }
+
+  return { layoutName: layout?.name ?? null, mapping, unknown };
+};
+
+/**
+ * Required targets no column is mapped to
+ */
+export const missingTargets = (mapping: ImportMapping): ImportTarget[] =>
+  REQUIRED_TARGETS.filter(target => !Object.values(mapping).includes(target));
+
+const dateColumn = (table: ImportTable, mapping: ImportMapping) =>
+  table.headers.findIndex(header => mapping[normalizeHeader(header)] === 'date');
+
+/**
+ * Weekday (0 = Sunday) of the latest date in the file, so a one-week export ends on its last day
+ */
+export const latestWeekday = (table: ImportTable, mapping: ImportMapping): number | null => {
+  const column = dateColumn(table, mapping);
+  if (column < 0) return null;
+
+  const dates = table.rows.map(row => parseImportDate(row[column] ?? '')).filter((date): date is Date => date !== null);
+  if (dates.length === 0) return null;
+  return new Date(Math.max(...dates.map(date => date.getTime()))).getDay();
+};
+
+/**
+ * Fold the file's rows into weeks ending on `weekEndDay`, oldest first. Without a date
+ * column the whole file is one week with a blank weekEnd. Rows whose date cannot be
+ * read are counted in `skippedRows`.
+ */
+export const buildImportWeeks = (
+  table: ImportTable,
+  mapping: ImportMapping,
+  weekEndDay: number
+): { weeks: ImportWeek[]; skippedRows: number } => {
+  const column = dateColumn(table, mapping);
+  const summed = SUMMED_FIELDS.filter(field => Object.values(mapping).includes(field));
+  const columnsOf = (field: SummedField) =>
+    table.headers.map((header, index) => (mapping[normalizeHeader(header)] === field ? index : -1)).filter(index => index >= 0);
+
+  const groups = new Map<string, { end: Date; days: Date[]; rows: string[][] }>();
+  let skippedRows = 0;
+
+  for (const row of table.rows) {
+    let key = '';
+    let end: Date | null = null;
+    let day: Date | null = null;
+    if (column >= 0) {
+      day = parseImportDate(row[column] ?? '');
+      if (!day) {
+        skippedRows++;
+        continue;
+      }
+      end = addDays(day, (weekEndDay - day.getDay() + 7) % 7);
+      key = format(end, 'yyyy-MM-dd');
+    }
+
+    const group = groups.get(key) ?? { end: end ?? new Date(NaN), days: [], rows: [] };
+    if (day) group.days.push(day);
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+
+  const weeks = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]): ImportWeek => {
+      const times = group.days.map(day => day.getTime());
+      const values: Partial<Record<SummedField, string>> = {};
+      for (const field of summed) {
+        const total = group.rows.reduce((sum, row) => sum + columnsOf(field).reduce((cellSum, index) => {
+          const num = parseMetricNumber(row[index]);
+          return cellSum + (Number.isNaN(num) ? 0 : num);
+        }, 0), 0);
+        values[field] = String(total);
+      }
+
+      return {
+        weekEnd: isValid(group.end) ? format(group.end, 'M/d/yyyy') : '',
+        firstDay: times.length > 0 ? format(new Date(Math.min(...times)), 'M/d/yyyy') : '',
+        lastDay: times.length > 0 ? format(new Date(Math.max(...times)), 'M/d/yyyy') : '',
+        rowCount: group.rows.length,
+        values,
+      };
+    });
+
+  return { weeks, skippedRows };
+};
+
+// What the import does with a week: add it, write over the matching row, or leave it out
+export type ImportAction = 'add' | 'overwrite' | 'skip';
+
+// One week as classified by the server's import dry run (/api/metrics/import-preview)
+export interface ImportDiff<T> {
+  index: number;
+  status: 'new' | 'identical' | 'conflict';
+  // Active row with the same agent, campaign and week end
+  match: T | null;
+  differences: { field: string; current: string; incoming: string }[];
+}
+
+/**
+ * Default action per dry-run status - only new weeks are added unless the user says otherwise
+ */
+export const defaultImportAction = (status: ImportDiff<unknown>['status']): ImportAction =>
+  status === 'new' ? 'add' : 'skip';
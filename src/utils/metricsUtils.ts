@@ -1,14 +1,16 @@
 // Shared utilities for metrics calculations and data processing
+import { validateMetricFields } from '../../shared/metricsSchema.js';
 
-/**
- * Parse a string value to a number, removing percentage signs and commas
- */
-export const parseNum = (val: string | undefined): number => {
-  if (!val) return 0;
-  const cleaned = val.replace(/[%,]/g, '').trim();
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? 0 : num;
-};
+// Aggregation and trend math lives in shared/analytics.js; re-exported for existing callers
+export {
+  parseNum,
+  safePercent,
+  linearRegression,
+  predictFuture,
+  calculateConfidenceInterval,
+  calculateTrend,
+  calculateAgentScore,
+} from '../../shared/analytics.js';
 
 /**
  * Format a number for display (K, M suffixes)
@@ -26,77 +28,6 @@ export const formatPercent = (num: number, decimals: number = 1): string => {
   return num.toFixed(decimals) + '%';
 };
 
-/**
- * Calculate percentage safely (handles division by zero)
- */
-export const safePercent = (numerator: number, denominator: number): number => {
-  if (denominator === 0) return 0;
-  return (numerator / denominator) * 100;
-};
-
-/**
- * Linear regression for trend analysis
- */
-export const linearRegression = (data: number[]): { slope: number; intercept: number; r2: number } => {
-  const n = data.length;
-  if (n < 2) return { slope: 0, intercept: data[0] || 0, r2: 0 };
-
-  const xMean = (n - 1) / 2;
-  const yMean = data.reduce((a, b) => a + b, 0) / n;
-
-  let ssXY = 0, ssXX = 0, ssYY = 0;
-  for (let i = 0; i < n; i++) {
-    ssXY += (i - xMean) * (data[i] - yMean);
-    ssXX += (i - xMean) ** 2;
-    ssYY += (data[i] - yMean) ** 2;
-  }
-
-  const slope = ssXX !== 0 ? ssXY / ssXX : 0;
-  const intercept = yMean - slope * xMean;
-  const r2 = ssYY !== 0 ? (ssXY ** 2) / (ssXX * ssYY) : 0;
-
-  return { slope, intercept, r2 };
-};
-
-/**
- * Predict future values using linear regression
- */
-export const predictFuture = (data: number[], periods: number): number[] => {
-  const { slope, intercept } = linearRegression(data);
-  const predictions: number[] = [];
-  for (let i = 0; i < periods; i++) {
-    const predicted = slope * (data.length + i) + intercept;
-    predictions.push(Math.max(0, predicted));
-  }
-  return predictions;
-};
-
-/**
- * Calculate confidence interval
- */
-export const calculateConfidenceInterval = (data: number[], confidence: number = 0.95): { lower: number; upper: number; mean: number } => {
-  const n = data.length;
-  if (n === 0) return { lower: 0, upper: 0, mean: 0 };
-
-  const mean = data.reduce((a, b) => a + b, 0) / n;
-  const stdDev = Math.sqrt(data.reduce((sq, val) => sq + (val - mean) ** 2, 0) / n);
-  const z = confidence === 0.95 ? 1.96 : confidence === 0.99 ? 2.576 : 1.645;
-  const margin = z * (stdDev / Math.sqrt(n));
-
-  return { lower: mean - margin, upper: mean + margin, mean };
-};
-
-/**
- * Calculate trend direction from data
- */
-export const calculateTrend = (data: number[]): 'up' | 'down' | 'stable' => {
-  const { slope, r2 } = linearRegression(data);
-  const threshold = 0.5;
-
-  if (Math.abs(slope) < threshold || r2 < 0.3) return 'stable';
-  return slope > 0 ? 'up' : 'down';
-};
-
 /**
  * Industry benchmarks for LinkedIn outreach (2024-2025)
  */
@@ -210,7 +141,7 @@ export const formatDate = (dateString: string, format: 'short' | 'long' | 'month
 };
 
 /**
- * Validate metric data structure
+ * Validate metric data structure and values against the schema the server enforces
  */
 export const validateMetric = (metric: Record<string, unknown>): { valid: boolean; errors: string[] } => {
   const errors: string[] = [];
@@ -218,33 +149,34 @@ export const validateMetric = (metric: Record<string, unknown>): { valid: boolea
   if (!metric.id) errors.push('Missing id');
   if (metric.rowIndex === undefined) errors.push('Missing rowIndex');
 
-  // Validate numeric fields
-  const numericFields = ['totalInvited', 'totalAccepted', 'totalMessaged', 'replies'];
-  numericFields.forEach(field => {
-    const value = metric[field];
-    if (value !== undefined && value !== '') {
-      const num = parseNum(value as string);
-      if (num < 0) errors.push(`${field} cannot be negative`);
-    }
+  Object.entries(validateMetricFields(metric)).forEach(([field, message]) => {
+    errors.push(`${field}: ${message}`);
   });
 
   return { valid: errors.length === 0, errors };
 };
 
 /**
- * Calculate agent performance score (0-100)
- */
-export const calculateAgentScore = (
-  acceptanceRate: number,
-  replyRate: number,
-  volume: number,
-  consistency: number
-): number => {
-  // Weights: Acceptance 35%, Reply 30%, Volume 20%, Consistency 15%
-  const acceptanceScore = Math.min(100, (acceptanceRate / 50) * 100) * 0.35;
-  const replyScore = Math.min(100, (replyRate / 30) * 100) * 0.30;
-  const volumeScore = Math.min(100, (volume / 1000) * 100) * 0.20;
-  const consistencyScore = Math.min(100, (consistency / 12) * 100) * 0.15;
-
-  return Math.round(acceptanceScore + replyScore + volumeScore + consistencyScore);
+ * Three-way compare of an edit against the stored row it conflicted with.
+ * `conflicts` were changed by both sides to different values; `theirs` were only changed on the server.
+ */
+export const findMergeConflicts = <T extends object>(
+  fields: (keyof T & string)[],
+  base: T,
+  mine: Partial<T>,
+  current: T
+): { conflicts: (keyof T & string)[]; theirs: (keyof T & string)[] } => {
+  const conflicts: (keyof T & string)[] = [];
+  const theirs: (keyof T & string)[] = [];
+
+  for (const key of fields) {
+    if (current[key] === base[key]) continue;
+    if (key in mine && mine[key] !== current[key]) {
+      conflicts.push(key);
+    } else if (!(key in mine)) {
+      theirs.push(key);
+    }
+  }
+
+  return { conflicts, theirs };
 };
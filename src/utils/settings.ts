@@ -0,0 +1,45 @@
+// Dashboard preferences from the Settings page, kept per browser
+const SETTINGS_STORAGE_KEY = 'defy_settings';
+
+// Fired on window after the settings are saved, so open views can follow them
+export const SETTINGS_CHANGED_EVENT = 'defy-settings-changed';
+
+export const DEFAULT_SETTINGS = {
+  // General
+  language: 'en',
+  timezone: 'America/New_York',
+  dateFormat: 'MM/DD/YYYY',
+  // Notifications
+  emailNotifications: true,
+  pushNotifications: true,
+  weeklyDigest: true,
+  alertsOnNewContent: true,
+  alertsOnMetrics: false,
+  // Appearance
+  theme: 'light',
+  compactMode: false,
+  showAnimations: true,
+  // Data
+  autoRefresh: true,
+  refreshInterval: 30,
+  cacheEnabled: true,
+};
+
+export type DashboardSettings = typeof DEFAULT_SETTINGS;
+
+/**
+ * Saved settings over the defaults, so settings added later get their default
+ */
+export const loadSettings = (): DashboardSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: DashboardSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(SETTINGS_CHANGED_EVENT));
+};